@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+import {
+  ExtensionInsertion,
+  ExtensionInsertionsParams,
+  ExtensionInsertionsRequest,
+  ExtensionInsertionsResult,
+  ExtensionsParams,
+  ExtensionsRequest,
+  ExtensionsResult,
+} from './protocol';
+import { CustomExtension } from './types';
+import { ExtensionLocation, ExtensionLocationEnum } from './validator/enums';
+import { isRootDocument } from './validator/referenceGraph';
+
+type ExtensionItem = vscode.QuickPickItem & { extension?: CustomExtension };
+
+type InsertionItem = vscode.QuickPickItem & { insertions: ExtensionInsertion[] };
+
+/**
+ * The `cOAS.addExtension` command: picks one of the configured extensions, then the section
+ * of the active document to add it to, or every section of its location missing it. The
+ * extensions configured for the document, the sections missing one and the edits adding it
+ * are asked to the language server.
+ */
+export class AddExtensionCommand {
+  constructor(private client: LanguageClient) {}
+
+  public async run(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage('No active file');
+      return;
+    }
+
+    const { document } = editor;
+    if (!isRootDocument(document.getText())) {
+      vscode.window.showWarningMessage('The active file is not a valid OpenAPI document');
+      return;
+    }
+
+    const extension = await this.pickExtension(document);
+    if (!extension) {
+      return;
+    }
+
+    const insertions = await this.client.sendRequest<ExtensionInsertionsResult>(
+      ExtensionInsertionsRequest,
+      { uri: document.uri.toString(), extension } satisfies ExtensionInsertionsParams
+    );
+    if (!insertions) {
+      vscode.window.showWarningMessage('The active file is not a valid OpenAPI document');
+      return;
+    }
+    if (insertions.length === 0) {
+      vscode.window.showInformationMessage(
+        `No ${extension.in} section of this document is missing ${extension.name}`
+      );
+      return;
+    }
+
+    const picked =
+      insertions.length === 1 ? insertions : await this.pickSections(extension, insertions);
+    if (!picked) {
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const { edit: inserted } of picked) {
+      const { start } = inserted.range;
+      edit.insert(document.uri, new vscode.Position(start.line, start.character), inserted.newText);
+    }
+    if ((await vscode.workspace.applyEdit(edit)) && picked.length > 1) {
+      vscode.window.showInformationMessage(
+        `Added ${extension.name} to ${picked.length} ${extension.in} sections`
+      );
+    }
+  }
+
+  private async pickExtension(document: vscode.TextDocument): Promise<CustomExtension | undefined> {
+    const extensions = await this.client.sendRequest<ExtensionsResult>(ExtensionsRequest, {
+      uri: document.uri.toString(),
+    } satisfies ExtensionsParams);
+    const items: ExtensionItem[] = extensions.map((extension) => ({
+      label: extension.name,
+      description: `${extension.type} in ${extension.in}`,
+      detail: extension.description,
+      extension,
+    }));
+    items.push({ label: '$(add) Other extension...' });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select the extension to add',
+      matchOnDescription: true,
+    });
+    return picked && (picked.extension ?? this.askExtension());
+  }
+
+  // An extension that is not configured, described by the user
+  private async askExtension(): Promise<CustomExtension | undefined> {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Enter extension name (e.g., x-custom-extension)',
+      validateInput: (value) =>
+        value.startsWith('x-') ? null : 'Extension name must start with "x-"',
+    });
+    if (!name) {
+      return undefined;
+    }
+
+    const type = await vscode.window.showQuickPick(
+      ['string', 'number', 'boolean', 'object', 'array'],
+      { placeHolder: 'Select extension type' }
+    );
+    if (!type) {
+      return undefined;
+    }
+
+    const location = await vscode.window.showQuickPick(Object.values(ExtensionLocationEnum), {
+      placeHolder: 'Select where to add the extension',
+    });
+    return location
+      ? ({ name, type, in: location as ExtensionLocation } as CustomExtension)
+      : undefined;
+  }
+
+  private async pickSections(
+    extension: CustomExtension,
+    insertions: ExtensionInsertion[]
+  ): Promise<ExtensionInsertion[] | undefined> {
+    const items: InsertionItem[] = [
+      {
+        label: `$(checklist) All ${insertions.length} sections missing ${extension.name}`,
+        insertions,
+      },
+      { label: '', kind: vscode.QuickPickItemKind.Separator, insertions: [] },
+      ...insertions.map((insertion) => ({
+        label: insertion.label || 'Document root',
+        description: insertion.description,
+        insertions: [insertion],
+      })),
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select the ${extension.in} section to add ${extension.name} to`,
+      matchOnDescription: true,
+    });
+    return picked?.insertions;
+  }
+}
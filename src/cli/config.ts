@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import Ajv from 'ajv';
+import customExtensionSchema from '../../schemas/custom-extension.json';
+import { CustomExtension } from '../types';
+import { ProjectConfig, findProjectConfig, loadProjectConfig } from '../config/projectConfig';
+
+// The editor settings, so the CLI enforces what developers see in VS Code by default
+const SETTINGS_FILE = path.join('.vscode', 'settings.json');
+const EXTENSIONS_SETTING = 'cOAS.customExtensions';
+const RULES_SETTING = 'cOAS.rules';
+const STRICT_SETTING = 'cOAS.strict';
+
+/**
+ * Loads the project configuration from `configFile`, or from the `.coasrc` of `cwd`, or else
+ * from the workspace settings of `cwd`. Throws when a file cannot be read or is invalid.
+ */
+export function loadConfiguration(configFile: string | undefined, cwd: string): ProjectConfig {
+  const projectFile =
+    configFile !== undefined ? path.resolve(cwd, configFile) : findProjectConfig(cwd);
+  if (projectFile !== undefined) {
+    return loadProjectConfig(projectFile);
+  }
+
+  const settingsFile = path.join(cwd, SETTINGS_FILE);
+  if (!fs.existsSync(settingsFile)) {
+    return new ProjectConfig(cwd, [], []);
+  }
+  const settings = jsonc.parse(readConfig(settingsFile)) ?? {};
+  return new ProjectConfig(
+    cwd,
+    [settingsFile],
+    validateDefinitions(settings[EXTENSIONS_SETTING] ?? [], settingsFile),
+    settings[RULES_SETTING] ?? {},
+    [],
+    settings[STRICT_SETTING] ?? false
+  );
+}
+
+function readConfig(file: string): string {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`Cannot read configuration file ${file}`);
+  }
+}
+
+function validateDefinitions(definitions: unknown, source: string): CustomExtension[] {
+  if (!Array.isArray(definitions)) {
+    throw new Error(`${source}: customExtensions must be a list of extension definitions`);
+  }
+
+  const validate = new Ajv({ allErrors: true, strict: false }).compile(customExtensionSchema);
+  definitions.forEach((definition, index) => {
+    if (!validate(definition)) {
+      const reason = validate.errors?.[0];
+      throw new Error(
+        `${source}: invalid extension definition #${index + 1}` +
+          (reason ? ` (${reason.instancePath || '/'} ${reason.message})` : '')
+      );
+    }
+  });
+  return definitions as CustomExtension[];
+}
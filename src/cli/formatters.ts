@@ -0,0 +1,214 @@
+import * as path from 'path';
+import { version } from '../../package.json';
+import { ValidationError } from '../types';
+import { FileReport } from './lint';
+
+export const OutputFormatEnum = {
+  Stylish: 'stylish',
+  Json: 'json',
+  JUnit: 'junit',
+  Sarif: 'sarif',
+} as const;
+
+export type OutputFormat = (typeof OutputFormatEnum)[keyof typeof OutputFormatEnum];
+
+/**
+ * Renders the reports of a lint run, file paths are shown relative to `cwd`.
+ */
+type Formatter = (reports: FileReport[], cwd: string) => string;
+
+function relativePath(file: string, cwd: string): string {
+  return path.relative(cwd, file).split(path.sep).join('/');
+}
+
+// Info and hint findings are reported as notes
+const sarifLevels: Record<ValidationError['severity'], string> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+  hint: 'note',
+};
+
+// A skipped file is reported as a warning, JUnit reports it as a skipped test case
+function findingsOf(report: FileReport): ValidationError[] {
+  if (report.skipped === undefined) {
+    return report.findings;
+  }
+  return [
+    { message: report.skipped, extensionName: 'skipped', severity: 'warning' },
+    ...report.findings,
+  ];
+}
+
+function count(reports: FileReport[], ...severities: ValidationError['severity'][]): number {
+  return reports.reduce(
+    (total, report) =>
+      total + findingsOf(report).filter((finding) => severities.includes(finding.severity)).length,
+    0
+  );
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatStylish(reports: FileReport[], cwd: string): string {
+  const lines: string[] = [];
+
+  for (const report of reports.filter((report) => findingsOf(report).length > 0)) {
+    const rows = findingsOf(report).map((finding) => [
+      `${finding.line ?? 0}:${finding.column ?? 0}`,
+      finding.severity,
+      finding.message,
+      finding.extensionName,
+    ]);
+    const widths = [0, 1].map((column) => Math.max(...rows.map((row) => row[column].length)));
+
+    lines.push(relativePath(report.file, cwd));
+    for (const [position, severity, message, rule] of rows) {
+      lines.push(
+        `  ${position.padEnd(widths[0])}  ${severity.padEnd(widths[1])}  ${message}  ${rule}`
+      );
+    }
+    lines.push('');
+  }
+
+  const errors = count(reports, 'error');
+  const warnings = count(reports, 'warning');
+  const notices = count(reports, 'info', 'hint');
+  if (errors + warnings + notices > 0) {
+    const totals = [plural(errors, 'error'), plural(warnings, 'warning')];
+    if (notices > 0) {
+      totals.push(plural(notices, 'notice'));
+    }
+    lines.push(`✖ ${plural(errors + warnings + notices, 'problem')} (${totals.join(', ')})`);
+  }
+  return lines.join('\n');
+}
+
+function formatJson(reports: FileReport[], cwd: string): string {
+  return JSON.stringify(
+    reports.map((report) => ({
+      filePath: relativePath(report.file, cwd),
+      errorCount: count([report], 'error'),
+      warningCount: count([report], 'warning'),
+      messages: findingsOf(report).map((finding) => ({
+        ruleId: finding.extensionName,
+        severity: finding.severity,
+        message: finding.message,
+        line: finding.line,
+        column: finding.column,
+        endLine: finding.endLine,
+        endColumn: finding.endColumn,
+      })),
+    })),
+    null,
+    2
+  );
+}
+
+// Every file is a test suite, a file without errors or warnings passes its single test case
+// and a skipped file skips it
+function formatJUnit(reports: FileReport[], cwd: string): string {
+  const suites = reports.map((report) => {
+    const name = escapeXml(relativePath(report.file, cwd));
+    const failures = report.findings.filter(
+      (finding) => finding.severity === 'error' || finding.severity === 'warning'
+    );
+    const cases =
+      report.skipped !== undefined
+        ? [
+            [
+              `    <testcase name="${name}" classname="${name}">`,
+              `      <skipped message="${escapeXml(report.skipped)}" />`,
+              '    </testcase>',
+            ].join('\n'),
+          ]
+        : failures.length === 0
+          ? [`    <testcase name="${name}" classname="${name}" />`]
+          : failures.map((finding) => {
+              const position = `${finding.line ?? 0}:${finding.column ?? 0}`;
+              const message = escapeXml(finding.message);
+              return [
+                `    <testcase name="${escapeXml(finding.extensionName)} ${position}" classname="${name}">`,
+                `      <failure type="${finding.severity}" message="${message}">${name}:${position} ${message}</failure>`,
+                '    </testcase>',
+              ].join('\n');
+            });
+    return [
+      `  <testsuite name="${name}" tests="${cases.length}" failures="${failures.length}" errors="0" ` +
+        `skipped="${report.skipped !== undefined ? 1 : 0}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<testsuites>',
+    ...suites,
+    '</testsuites>',
+  ].join('\n');
+}
+
+function formatSarif(reports: FileReport[], cwd: string): string {
+  const findings = reports.flatMap((report) =>
+    findingsOf(report).map((finding) => ({ file: report.file, finding }))
+  );
+  const rules = [...new Set(findings.map(({ finding }) => finding.extensionName))];
+
+  return JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'coas',
+              version,
+              rules: rules.map((id) => ({ id })),
+            },
+          },
+          results: findings.map(({ file, finding }) => ({
+            ruleId: finding.extensionName,
+            ruleIndex: rules.indexOf(finding.extensionName),
+            level: sarifLevels[finding.severity],
+            message: { text: finding.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: relativePath(file, cwd) },
+                  region: {
+                    startLine: finding.line ?? 1,
+                    startColumn: finding.column ?? 1,
+                    endLine: finding.endLine,
+                    endColumn: finding.endColumn,
+                  },
+                },
+              },
+            ],
+          })),
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+export const formatters: Record<OutputFormat, Formatter> = {
+  [OutputFormatEnum.Stylish]: formatStylish,
+  [OutputFormatEnum.Json]: formatJson,
+  [OutputFormatEnum.JUnit]: formatJUnit,
+  [OutputFormatEnum.Sarif]: formatSarif,
+};
@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { loadConfiguration } from './config';
+import { OutputFormat, OutputFormatEnum, formatters } from './formatters';
+import { lintFiles } from './lint';
+
+const USAGE = `Usage: coas lint [options] <files...>
+
+Lints OpenAPI documents against the OpenAPI schema and the configured custom extensions.
+
+Options:
+  -c, --config <file>   Project config file (default: .coasrc in the current directory,
+                        else cOAS.customExtensions of .vscode/settings.json)
+  -f, --format <name>   Output format: ${Object.values(OutputFormatEnum).join(', ')} (default: stylish)
+  -o, --output <file>   Write the report to a file instead of stdout
+  -h, --help            Show this help
+
+Exits with 1 when errors are found and 2 when the command cannot run.`;
+
+/**
+ * Runs the command line and returns its exit code.
+ */
+export function main(args: string[], cwd = process.cwd()): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c' },
+        format: { type: 'string', short: 'f', default: OutputFormatEnum.Stylish },
+        output: { type: 'string', short: 'o' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    return fail(`${(error as Error).message}\n\n${USAGE}`);
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...files] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'lint' || files.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!Object.values(OutputFormatEnum).includes(format)) {
+    return fail(`Unknown format "${values.format}"\n\n${USAGE}`);
+  }
+
+  try {
+    const reports = lintFiles(files, loadConfiguration(values.config, cwd));
+    const output = formatters[format](reports, cwd);
+    if (values.output) {
+      fs.writeFileSync(values.output, output + '\n');
+    } else if (output) {
+      console.log(output);
+    }
+
+    const hasErrors = reports.some((report) =>
+      report.findings.some((finding) => finding.severity === 'error')
+    );
+    return hasErrors ? 1 : 0;
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+}
+
+function fail(message: string): number {
+  console.error(`coas: ${message}`);
+  return 2;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
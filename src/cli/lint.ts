@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectConfig } from '../config/projectConfig';
+import { SPEC_FILES_GLOB, findFiles } from '../server/files';
+import { ValidationError } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { ReferenceGraph, isRootDocument } from '../validator/referenceGraph';
+import { OpenAPIValidator } from '../validator/validator';
+
+/**
+ * The findings reported in one file, which is the absolute path of a linted document or of a
+ * fragment it references.
+ */
+export type FileReport = {
+  file: string;
+  findings: ValidationError[];
+  // Why the file was not linted: a fragment no root document includes
+  skipped?: string;
+};
+
+/**
+ * Lints `files` with the definitions `config` has for each of them. Root documents are linted
+ * as a whole, fragments through the roots including them, among `files` and the specification
+ * files of the project. A fragment no root includes is reported as skipped, and a finding
+ * reported by several roots is listed once.
+ */
+export function lintFiles(files: string[], config: ProjectConfig): FileReport[] {
+  const validator = new OpenAPIValidator(config.getExtensions());
+  // Fragments shared by several roots are parsed once
+  const documents = new DocumentCache();
+  const reports = new Map<string, ValidationError[]>();
+  const skipped = new Map<string, string>();
+  const seen = new Set<string>();
+
+  const contents = new Map<string, string>();
+  for (const input of files) {
+    const file = path.resolve(input);
+    try {
+      contents.set(file, fs.readFileSync(file, 'utf8'));
+    } catch {
+      throw new Error(`Cannot read ${input}`);
+    }
+    reports.set(file, reports.get(file) ?? []);
+  }
+
+  // The roots to validate, with the fragments each one is validated for. Null when the root
+  // itself is linted and all of its findings are reported.
+  const roots = new Map<string, Set<string> | null>();
+  const graph = indexProject(contents, config.directory, documents);
+  for (const [file, content] of contents) {
+    if (isRootDocument(content)) {
+      roots.set(file, null);
+      continue;
+    }
+    const including = graph.getRoots(file);
+    if (including.length === 0) {
+      skipped.set(file, 'Not linted, no root document references this fragment');
+    }
+    for (const root of including.filter((root) => roots.get(root) !== null)) {
+      roots.set(root, new Set([...(roots.get(root) ?? []), file]));
+    }
+  }
+
+  for (const [file, fragments] of roots) {
+    const content = contents.get(file) ?? readFile(file);
+    if (content === undefined) {
+      continue;
+    }
+    const result = validator.validateDocument(content, {
+      file,
+      documents,
+      customExtensions: config.getExtensions(file),
+      rules: config.getRules(file),
+      strict: config.strict,
+      customRules: config.customRules,
+    });
+    for (const finding of [...result.errors, ...result.warnings]) {
+      const target = finding.file ?? file;
+      if (fragments && !fragments.has(target)) {
+        continue;
+      }
+      const key = [target, finding.line, finding.column, finding.extensionName, finding.message];
+      if (seen.has(key.join('\0'))) {
+        continue;
+      }
+      seen.add(key.join('\0'));
+      reports.set(target, [...(reports.get(target) ?? []), { ...finding, file: target }]);
+    }
+  }
+
+  return [...reports].map(([file, findings]) => ({
+    file,
+    findings: findings.sort(
+      (a, b) => (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0)
+    ),
+    ...(skipped.has(file) ? { skipped: skipped.get(file) } : {}),
+  }));
+}
+
+/**
+ * The reference graph of the linted files and of the specification files of `directory`,
+ * completed with the files they reference outside of it.
+ */
+function indexProject(
+  contents: Map<string, string>,
+  directory: string,
+  documents: DocumentCache
+): ReferenceGraph {
+  const graph = new ReferenceGraph(documents);
+  const pending = [
+    ...contents.keys(),
+    ...findFiles([directory], [SPEC_FILES_GLOB], ['**/node_modules/**']),
+  ];
+  while (pending.length > 0) {
+    const file = pending.pop()!;
+    const content = graph.has(file) ? undefined : (contents.get(file) ?? readFile(file));
+    if (content === undefined) {
+      continue;
+    }
+    graph.update(file, content);
+    pending.push(...[...graph.getClosure(file)].filter((reference) => !graph.has(reference)));
+  }
+  return graph;
+}
+
+function readFile(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
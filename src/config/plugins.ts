@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { Rule, RulePlugin } from '../types';
+import { SeverityEnum } from '../validator/enums';
+
+// The severities a rule may declare, turning rules off is left to the configs
+const SEVERITIES: string[] = [
+  SeverityEnum.Error,
+  SeverityEnum.Warning,
+  SeverityEnum.Info,
+  SeverityEnum.Hint,
+];
+
+/**
+ * Loads the rules of a plugin module. The module is evaluated again on every call, so that a
+ * changed plugin is picked up when the project config is reloaded. TypeScript modules are
+ * transpiled with the `typescript` package of the project. Throws when the module cannot be
+ * loaded, does not export rules, or a rule has an unknown severity.
+ */
+export function loadPlugin(file: string): Rule[] {
+  let exported: any;
+  try {
+    exported = evaluateModule(file);
+  } catch (error) {
+    throw new Error(`Failed to load plugin ${file}: ${(error as Error).message}`);
+  }
+
+  const plugin: RulePlugin | undefined = exported?.rules ? exported : exported?.default;
+  const rules = plugin?.rules;
+  if (
+    !Array.isArray(rules) ||
+    !rules.every((rule) => typeof rule?.name === 'string' && typeof rule.check === 'function')
+  ) {
+    throw new Error(`Plugin ${file} must export rules, each with a name and a check function`);
+  }
+  for (const rule of rules) {
+    if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+      throw new Error(
+        `Rule ${rule.name} of plugin ${file} has the severity ${JSON.stringify(rule.severity)}, ` +
+          `expected one of ${SEVERITIES.join(', ')}`
+      );
+    }
+  }
+  return rules;
+}
+
+/**
+ * Evaluates a CommonJS module and returns its exports. Unlike `require`, the module is read
+ * again on every call; its own dependencies are loaded by Node as usual.
+ */
+export function evaluateModule(file: string): any {
+  let code = fs.readFileSync(file, 'utf8');
+  const require = createRequire(file);
+  if (/\.[cm]?ts$/.test(file)) {
+    code = transpile(code, file, require);
+  }
+
+  const module = { exports: {} as any };
+  new Function('exports', 'require', 'module', '__filename', '__dirname', code)(
+    module.exports,
+    require,
+    module,
+    file,
+    path.dirname(file)
+  );
+  return module.exports;
+}
+
+function transpile(code: string, file: string, require: NodeRequire): string {
+  let typescript: typeof import('typescript');
+  try {
+    typescript = require('typescript');
+  } catch {
+    throw new Error('TypeScript plugins need the typescript package installed in the project');
+  }
+  return typescript.transpileModule(code, {
+    fileName: file,
+    compilerOptions: {
+      module: typescript.ModuleKind.CommonJS,
+      target: typescript.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  }).outputText;
+}
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Ajv from 'ajv';
+import { minimatch } from 'minimatch';
+import projectConfigSchema from '../../schemas/project-config.json';
+import {
+  ConfigOverride,
+  CustomExtension,
+  ProjectConfigFile,
+  Rule,
+  RuleSeverities,
+  StrictMode,
+} from '../types';
+import { parseYaml } from '../validator/sourceMap';
+import { evaluateModule, loadPlugin } from './plugins';
+import { loadSpectralRuleset } from './spectral';
+
+// Looked up in this order in the project directory
+export const PROJECT_CONFIG_FILES = ['.coasrc', '.coasrc.yaml', '.coasrc.yml', '.coasrc.json'];
+
+type ResolvedOverride = {
+  files: string[];
+  customExtensions: CustomExtension[];
+  rules: RuleSeverities;
+};
+
+/**
+ * Adds `additions` to `base`, a definition replaces the one with the same name and location.
+ */
+export function mergeExtensions(
+  base: CustomExtension[],
+  additions: CustomExtension[]
+): CustomExtension[] {
+  const merged = [...base];
+  for (const extension of additions) {
+    const index = merged.findIndex(
+      (existing) => existing.name === extension.name && existing.in === extension.in
+    );
+    if (index >= 0) {
+      merged[index] = extension;
+    } else {
+      merged.push(extension);
+    }
+  }
+  return merged;
+}
+
+/**
+ * The extension definitions and rule severities of a project, with its presets applied. Both
+ * depend on the linted file when overrides match it.
+ */
+export class ProjectConfig {
+  constructor(
+    // Directory override globs are relative to
+    public readonly directory: string,
+    // Files the definitions were read from, presets, plugins and Spectral rulesets included
+    public readonly files: string[],
+    private customExtensions: CustomExtension[],
+    private rules: RuleSeverities = {},
+    private overrides: ResolvedOverride[] = [],
+    public readonly strict: StrictMode = false,
+    // Rules of the plugins and Spectral rulesets of the config and its presets
+    public readonly customRules: Rule[] = [],
+    // Plugins and JavaScript presets left out because the workspace is not trusted
+    public readonly untrustedFiles: string[] = []
+  ) {}
+
+  /**
+   * Whether `file` belongs to the project, that is lies under its directory.
+   */
+  public covers(file: string): boolean {
+    const relative = path.relative(this.directory, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  public getExtensions(file?: string): CustomExtension[] {
+    return this.matchingOverrides(file).reduce(
+      (extensions, override) => mergeExtensions(extensions, override.customExtensions),
+      this.customExtensions
+    );
+  }
+
+  public getRules(file?: string): RuleSeverities {
+    return this.matchingOverrides(file).reduce(
+      (rules, override) => ({ ...rules, ...override.rules }),
+      this.rules
+    );
+  }
+
+  private matchingOverrides(file?: string): ResolvedOverride[] {
+    if (file === undefined) {
+      return [];
+    }
+    const relative = path.relative(this.directory, file).split(path.sep).join('/');
+    return this.overrides.filter((override) =>
+      override.files.some((pattern) => minimatch(relative, pattern, { dot: true }))
+    );
+  }
+}
+
+/**
+ * Path of the project config file in `directory`, undefined when there is none.
+ */
+export function findProjectConfig(directory: string): string | undefined {
+  return PROJECT_CONFIG_FILES.map((name) => path.join(directory, name)).find((file) =>
+    fs.existsSync(file)
+  );
+}
+
+/**
+ * Picks the config of the innermost project containing `file`.
+ */
+export function findConfigFor(configs: ProjectConfig[], file: string): ProjectConfig | undefined {
+  return configs
+    .filter((config) => config.covers(file))
+    .sort((a, b) => b.directory.length - a.directory.length)[0];
+}
+
+/**
+ * Reads a project config file and the presets it extends, recursively, and loads their
+ * plugins and Spectral rulesets. Code of the project, plugins and JavaScript presets, only runs
+ * when `trusted`, it is left out otherwise. Throws when a file cannot be read, is invalid, or
+ * the presets extend each other in a cycle.
+ */
+export function loadProjectConfig(file: string, trusted = true): ProjectConfig {
+  const files: string[] = [];
+  let customExtensions: CustomExtension[] = [];
+  let rules: RuleSeverities = {};
+  let strict: StrictMode = false;
+  const overrides: ResolvedOverride[] = [];
+  const plugins: string[] = [];
+  const rulesets: string[] = [];
+  const untrustedFiles: string[] = [];
+  const skip = (untrusted: string) => {
+    if (!untrustedFiles.includes(untrusted)) {
+      untrustedFiles.push(untrusted);
+    }
+  };
+
+  const load = (configFile: string, chain: string[]) => {
+    if (chain.includes(configFile)) {
+      throw new Error(`Circular extends: ${[...chain, configFile].join(' -> ')}`);
+    }
+    const config = readProjectConfig(configFile);
+    if (!files.includes(configFile)) {
+      files.push(configFile);
+    }
+
+    const presets = typeof config.extends === 'string' ? [config.extends] : (config.extends ?? []);
+    for (const preset of presets) {
+      const presetFile = resolveModule(preset, path.dirname(configFile), 'preset');
+      if (!trusted && isScript(presetFile)) {
+        skip(presetFile);
+      } else {
+        load(presetFile, [...chain, configFile]);
+      }
+    }
+    for (const plugin of config.plugins ?? []) {
+      const pluginFile = resolveModule(plugin, path.dirname(configFile), 'plugin');
+      if (!trusted) {
+        skip(pluginFile);
+      } else if (!plugins.includes(pluginFile)) {
+        plugins.push(pluginFile);
+      }
+    }
+    const spectral = typeof config.spectral === 'string' ? [config.spectral] : config.spectral;
+    for (const ruleset of spectral ?? []) {
+      const rulesetFile = resolveModule(ruleset, path.dirname(configFile), 'ruleset');
+      if (!rulesets.includes(rulesetFile)) {
+        rulesets.push(rulesetFile);
+      }
+    }
+
+    customExtensions = mergeExtensions(customExtensions, config.customExtensions ?? []);
+    rules = { ...rules, ...config.rules };
+    strict = config.strict ?? strict;
+    overrides.push(...(config.overrides ?? []).map(resolveOverride));
+  };
+  load(path.resolve(file), []);
+  const spectralRulesets = rulesets.map(loadSpectralRuleset);
+
+  return new ProjectConfig(
+    path.dirname(path.resolve(file)),
+    // Plugins and rulesets are reloaded with the config when they change
+    [...files, ...plugins, ...spectralRulesets.flatMap((ruleset) => ruleset.files)],
+    customExtensions,
+    rules,
+    overrides,
+    strict,
+    [...plugins.flatMap(loadPlugin), ...spectralRulesets.flatMap((ruleset) => ruleset.rules)],
+    untrustedFiles
+  );
+}
+
+function resolveOverride(override: ConfigOverride): ResolvedOverride {
+  return {
+    files: typeof override.files === 'string' ? [override.files] : override.files,
+    customExtensions: override.customExtensions ?? [],
+    rules: override.rules ?? {},
+  };
+}
+
+// Relative and absolute paths are files, anything else is an npm package (or a file in one)
+function resolveModule(
+  name: string,
+  directory: string,
+  kind: 'preset' | 'plugin' | 'ruleset'
+): string {
+  if (name.startsWith('.') || path.isAbsolute(name)) {
+    return path.resolve(directory, name);
+  }
+  try {
+    return require.resolve(name, { paths: [directory] });
+  } catch {
+    throw new Error(
+      `Cannot find ${kind} "${name}" ${kind === 'preset' ? 'extended' : 'loaded'} from ${directory}`
+    );
+  }
+}
+
+// JavaScript presets are evaluated to read them
+function isScript(file: string): boolean {
+  return /\.c?js$/.test(file);
+}
+
+function readProjectConfig(file: string): ProjectConfigFile {
+  let config: unknown;
+  if (isScript(file)) {
+    // Evaluated again on every load, so that an edited preset is picked up like a plugin
+    try {
+      config = evaluateModule(file);
+    } catch (error) {
+      throw new Error(`Failed to load ${file}: ${(error as Error).message}`);
+    }
+  } else {
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf8');
+    } catch {
+      throw new Error(`Cannot read configuration file ${file}`);
+    }
+    try {
+      config = /\.json$/i.test(file) ? JSON.parse(content) : (parseYaml(content) ?? {});
+    } catch (error) {
+      throw new Error(`Failed to parse ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  const validate = new Ajv({ allErrors: true, strict: false }).compile(projectConfigSchema);
+  if (!validate(config)) {
+    const reason = validate.errors?.[0];
+    throw new Error(
+      `Invalid configuration file ${file}` +
+        (reason ? `: ${reason.instancePath || '/'} ${reason.message}` : '')
+    );
+  }
+  return config as ProjectConfigFile;
+}
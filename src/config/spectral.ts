@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Rule, SpectralRule, SpectralRuleset } from '../types';
+import { createSpectralRule } from '../validator/rules/spectral';
+import { parseYaml } from '../validator/sourceMap';
+
+/**
+ * Loads the rules of a Spectral ruleset and of the local rulesets it extends, recursively.
+ * Rulesets extended by name, such as `spectral:oas`, are not loaded. Returns the ruleset files
+ * read, so that they are reloaded with the project config. Throws when a file cannot be read,
+ * a rule is invalid or uses an unsupported function.
+ */
+export function loadSpectralRuleset(file: string): { files: string[]; rules: Rule[] } {
+  const files: string[] = [];
+  const definitions: { [name: string]: SpectralRule } = {};
+  const severities: { [name: string]: SpectralRule['severity'] } = {};
+
+  const load = (rulesetFile: string, chain: string[]) => {
+    if (chain.includes(rulesetFile)) {
+      throw new Error(`Circular extends: ${[...chain, rulesetFile].join(' -> ')}`);
+    }
+    const ruleset = readRuleset(rulesetFile);
+    if (!files.includes(rulesetFile)) {
+      files.push(rulesetFile);
+    }
+
+    const extended = typeof ruleset.extends === 'string' ? [ruleset.extends] : ruleset.extends;
+    for (const entry of extended ?? []) {
+      const name = Array.isArray(entry) ? entry[0] : entry;
+      if (name.startsWith('.') || path.isAbsolute(name)) {
+        load(path.resolve(path.dirname(rulesetFile), name), [...chain, rulesetFile]);
+      }
+    }
+
+    for (const [name, rule] of Object.entries(ruleset.rules ?? {})) {
+      if (typeof rule === 'object' && rule !== null) {
+        if (typeof rule.given !== 'string' && !Array.isArray(rule.given)) {
+          throw new Error(`Invalid Spectral rule ${name} in ${rulesetFile}: given is required`);
+        }
+        if (typeof rule.then !== 'object' || rule.then === null) {
+          throw new Error(`Invalid Spectral rule ${name} in ${rulesetFile}: then is required`);
+        }
+        definitions[name] = rule;
+        delete severities[name];
+      } else if (rule === true) {
+        delete severities[name];
+      } else {
+        // `name: off` or `name: false` changes the severity of an extended rule
+        severities[name] = rule === false ? 'off' : rule;
+      }
+    }
+  };
+  load(path.resolve(file), []);
+
+  const rules = Object.entries(definitions)
+    .map(([name, definition]) =>
+      createSpectralRule(
+        name,
+        name in severities ? { ...definition, severity: severities[name] } : definition
+      )
+    )
+    .filter((rule): rule is Rule => rule !== null);
+  return { files, rules };
+}
+
+function readRuleset(file: string): SpectralRuleset {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch {
+    throw new Error(`Cannot read Spectral ruleset ${file}`);
+  }
+  let ruleset: unknown;
+  try {
+    ruleset = /\.json$/i.test(file) ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${file}: ${(error as Error).message}`);
+  }
+  if (typeof ruleset !== 'object' || ruleset === null || Array.isArray(ruleset)) {
+    throw new Error(`Invalid Spectral ruleset ${file}`);
+  }
+  return ruleset as SpectralRuleset;
+}
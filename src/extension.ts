@@ -1,111 +1,92 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { OpenAPIDiagnosticsProvider } from './diagnosticsProvider';
-import { OpenAPICompletionProvider } from './completionProvider';
-import { CustomExtension } from './types';
-
-let diagnosticsProvider: OpenAPIDiagnosticsProvider;
-let completionProvider: OpenAPICompletionProvider;
-
-export function activate(context: vscode.ExtensionContext) {
+import {
+  LanguageClient,
+  LanguageClientOptions,
+  ServerOptions,
+  TransportKind,
+  WorkDoneProgress,
+} from 'vscode-languageclient/node';
+import { AddExtensionCommand } from './addExtensionCommand';
+import {
+  InitializationOptions,
+  ValidateDocumentParams,
+  ValidateDocumentRequest,
+  ValidateWorkspaceParams,
+  ValidateWorkspaceRequest,
+  ValidateWorkspaceResult,
+  WorkspaceTrustedNotification,
+} from './protocol';
+
+let client: LanguageClient;
+
+export async function activate(context: vscode.ExtensionContext) {
   try {
-    // Load configuration
-    const config = vscode.workspace.getConfiguration('cOAS');
-    const customExtensions: CustomExtension[] = config.get('customExtensions') ?? [];
-    const enableLinting: boolean = config.get('enableLinting') ?? true;
-    const enableAutocompletion: boolean = config.get('enableAutocompletion') ?? true;
-
-    // Initialize diagnostics provider
-    if (enableLinting) {
-      diagnosticsProvider = new OpenAPIDiagnosticsProvider(context, customExtensions);
-
-      // Validate documents on open and change
-      const validateDocument = (document: vscode.TextDocument) => {
-        diagnosticsProvider.validateDocument(document);
-      };
-
-      context.subscriptions.push(
-        vscode.workspace.onDidOpenTextDocument(validateDocument),
-        vscode.workspace.onDidChangeTextDocument((e) => validateDocument(e.document)),
-        vscode.workspace.onDidSaveTextDocument(validateDocument)
-      );
-
-      // Validate already open documents
-      vscode.workspace.textDocuments.forEach(validateDocument);
-    }
-
-    // Initialize completion provider
-    if (enableAutocompletion) {
-      completionProvider = new OpenAPICompletionProvider(customExtensions);
-
-      context.subscriptions.push(
-        vscode.languages.registerCompletionItemProvider(
-          ['yaml', 'yml'],
-          completionProvider,
-          'x',
-          '-' // Trigger on 'x' and '-' for x- extensions
-        )
-      );
-    }
+    // Parsing and validation run in the language server process, off the extension host
+    const serverModule = context.asAbsolutePath(path.join('out', 'server', 'server.js'));
+    const serverOptions: ServerOptions = {
+      run: { module: serverModule, transport: TransportKind.ipc },
+      debug: {
+        module: serverModule,
+        transport: TransportKind.ipc,
+        options: { execArgv: ['--nolazy', '--inspect=6009'] },
+      },
+    };
+    const clientOptions: LanguageClientOptions = {
+      documentSelector: [{ language: 'yaml' }, { language: 'yml' }, { language: 'json' }],
+      // Plugins and JavaScript presets of the project configs wait for the workspace trust
+      initializationOptions: {
+        isTrusted: vscode.workspace.isTrusted,
+      } satisfies InitializationOptions,
+    };
+    client = new LanguageClient('cOAS', 'Customized OAS', serverOptions, clientOptions);
 
     // Register commands
+    const addExtensionCommand = new AddExtensionCommand(client);
     context.subscriptions.push(
-      vscode.commands.registerCommand('cOAS.validateFile', () => {
+      vscode.commands.registerCommand('cOAS.validateFile', async () => {
         const activeEditor = vscode.window.activeTextEditor;
-        if (activeEditor && diagnosticsProvider) {
-          diagnosticsProvider.validateDocument(activeEditor.document);
+        if (activeEditor) {
+          await client.sendRequest(ValidateDocumentRequest, {
+            uri: activeEditor.document.uri.toString(),
+          } satisfies ValidateDocumentParams);
           vscode.window.showInformationMessage('OpenAPI validation completed');
         } else {
           vscode.window.showWarningMessage('No active OpenAPI file to validate');
         }
       }),
 
-      vscode.commands.registerCommand('cOAS.addExtension', async () => {
-        const activeEditor = vscode.window.activeTextEditor;
-        if (!activeEditor) {
-          vscode.window.showWarningMessage('No active file');
+      vscode.commands.registerCommand('cOAS.validateWorkspace', async () => {
+        if (!vscode.workspace.getConfiguration('cOAS').get('enableLinting', true)) {
+          vscode.window.showWarningMessage('Linting is disabled (cOAS.enableLinting)');
           return;
         }
 
-        const extensionName = await vscode.window.showInputBox({
-          prompt: 'Enter extension name (e.g., x-custom-extension)',
-          validateInput: (value) => {
-            if (!value.startsWith('x-')) {
-              return 'Extension name must start with "x-"';
-            }
-            return null;
+        const { validated, total } = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Validating OpenAPI files',
+            cancellable: true,
           },
-        });
-
-        if (extensionName) {
-          const extensionType = await vscode.window.showQuickPick(
-            ['string', 'number', 'boolean', 'object', 'array'],
-            { placeHolder: 'Select extension type' }
-          );
+          (progress, token) => validateWorkspace(progress, token)
+        );
+        vscode.window.showInformationMessage(
+          validated < total
+            ? `OpenAPI validation cancelled after ${validated} of ${total} documents`
+            : `Validated ${total} OpenAPI document${total === 1 ? '' : 's'}`
+        );
+      }),
 
-          if (extensionType) {
-            await addExtensionToDocument(activeEditor, extensionName, extensionType);
-          }
-        }
-      })
+      vscode.commands.registerCommand('cOAS.addExtension', () => addExtensionCommand.run())
     );
 
-    // Listen for configuration changes
+    // A server that fails to start is reported below
+    await client.start();
     context.subscriptions.push(
-      vscode.workspace.onDidChangeConfiguration((e) => {
-        if (e.affectsConfiguration('cOAS')) {
-          const newConfig = vscode.workspace.getConfiguration('cOAS');
-          const newExtensions: CustomExtension[] = newConfig.get('customExtensions') ?? [];
-
-          if (diagnosticsProvider) {
-            diagnosticsProvider.updateRequiredExtensions(newExtensions);
-          }
-          if (completionProvider) {
-            completionProvider.updateRequiredExtensions(newExtensions);
-          }
-        }
-      })
+      vscode.workspace.onDidGrantWorkspaceTrust(() =>
+        client.sendNotification(WorkspaceTrustedNotification)
+      )
     );
-
     vscode.window.showInformationMessage('Customized OAS Linter Activated');
   } catch (error) {
     console.error('Extension activation failed:', error);
@@ -113,63 +94,30 @@ export function activate(context: vscode.ExtensionContext) {
   }
 }
 
-async function addExtensionToDocument(
-  editor: vscode.TextEditor,
-  extensionName: string,
-  extensionType: string
-): Promise<void> {
-  const document = editor.document;
-  const content = document.getText();
-
-  // Find insertion point (after openapi and info sections)
-  const lines = content.split('\n');
-  let insertLine = 0;
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (line.match(/^info\s*:/)) {
-      // Find the end of the info section
-      for (let j = i + 1; j < lines.length; j++) {
-        const nextLine = lines[j];
-        if (nextLine.match(/^[a-zA-Z]/)) {
-          insertLine = j;
-          break;
-        }
-      }
-      break;
+// Shows the progress the server reports for the request in the notification
+async function validateWorkspace(
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  token: vscode.CancellationToken
+): Promise<ValidateWorkspaceResult> {
+  const workDoneToken = `cOAS/validateWorkspace/${Date.now()}`;
+  let percentage = 0;
+  const listener = client.onProgress(WorkDoneProgress.type, workDoneToken, (value) => {
+    if (value.kind === 'report' && value.percentage !== undefined) {
+      progress.report({ increment: value.percentage - percentage, message: value.message });
+      percentage = value.percentage;
     }
-  }
-
-  // Create extension snippet
-  let extensionSnippet: string;
-  switch (extensionType) {
-    case 'string':
-      extensionSnippet = `${extensionName}: "value"`;
-      break;
-    case 'number':
-      extensionSnippet = `${extensionName}: 0`;
-      break;
-    case 'boolean':
-      extensionSnippet = `${extensionName}: true`;
-      break;
-    case 'object':
-      extensionSnippet = `${extensionName}:\n  key: value`;
-      break;
-    case 'array':
-      extensionSnippet = `${extensionName}:\n  - item`;
-      break;
-    default:
-      extensionSnippet = `${extensionName}: value`;
-  }
-
-  const position = new vscode.Position(insertLine, 0);
-  await editor.edit((editBuilder) => {
-    editBuilder.insert(position, extensionSnippet + '\n');
   });
+  try {
+    return await client.sendRequest<ValidateWorkspaceResult>(
+      ValidateWorkspaceRequest,
+      { workDoneToken } satisfies ValidateWorkspaceParams,
+      token
+    );
+  } finally {
+    listener.dispose();
+  }
 }
 
-export function deactivate() {
-  if (diagnosticsProvider) {
-    diagnosticsProvider.dispose();
-  }
+export function deactivate(): Thenable<void> | undefined {
+  return client?.stop();
 }
@@ -0,0 +1,57 @@
+import { Position, TextDocument, TextEdit } from 'vscode-languageserver-textdocument';
+import { createSnippet, expandSnippet } from './snippets';
+import { CustomExtension } from './types';
+import { SourceMap } from './validator/sourceMap';
+
+/**
+ * An edit inserting `extensions` with default values as the first keys of the mapping at `path`: on
+ * their own lines in YAML block mappings, after the opening brace of JSON objects and YAML
+ * flow mappings. Returns null when there is no mapping at `path`.
+ */
+export function insertExtensions(
+  document: TextDocument,
+  sourceMap: SourceMap,
+  path: (string | number)[],
+  extensions: CustomExtension[]
+): TextEdit | null {
+  const location = sourceMap.locate(path, 'value');
+  if (!location) {
+    return null;
+  }
+  const position = { line: location.line - 1, character: location.column - 1 };
+  const text = document.getText();
+  const offset = document.offsetAt(position);
+
+  if (text[offset] !== '{') {
+    const indentation = ' '.repeat(position.character);
+    const entries = extensions.map((extension) =>
+      indentLines(expandSnippet(createSnippet(extension, 'yaml')), indentation)
+    );
+    return insert(position, `${entries.join(`\n${indentation}`)}\n${indentation}`);
+  }
+
+  // JSON is valid in flow mappings too
+  const entries = extensions.map((extension) => expandSnippet(createSnippet(extension, 'json')));
+  const afterBrace = document.positionAt(offset + 1);
+  let next = offset + 1;
+  while (/\s/.test(text[next] ?? '')) {
+    next++;
+  }
+  const firstKey = document.positionAt(next);
+
+  if (text[next] === '}' || firstKey.line === position.line) {
+    const inline = entries.map((entry) => entry.replace(/\n\s*/g, ' ')).join(', ');
+    return insert(afterBrace, text[next] === '}' ? inline : `${inline}, `);
+  }
+  const indentation = ' '.repeat(firstKey.character);
+  const lines = entries.map((entry) => `\n${indentation}${indentLines(entry, indentation)},`);
+  return insert(afterBrace, lines.join(''));
+}
+
+function insert(position: Position, newText: string): TextEdit {
+  return { range: { start: position, end: position }, newText };
+}
+
+function indentLines(text: string, indentation: string): string {
+  return text.split('\n').join(`\n${indentation}`);
+}
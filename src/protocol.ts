@@ -0,0 +1,65 @@
+import { TextEdit } from 'vscode-languageserver-textdocument';
+import { CustomExtension } from './types';
+
+/**
+ * Requests of the language server beyond the standard protocol, sent by the extension and
+ * available to any other client.
+ */
+
+// The `initializationOptions` of the server. Plugins and JavaScript presets of the project
+// configs only run once the client tells the workspace is trusted, here or through the
+// notification below.
+export type InitializationOptions = {
+  isTrusted?: boolean;
+};
+
+// Sent once the user trusts the workspace, its plugins and JavaScript presets are then loaded
+export const WorkspaceTrustedNotification = 'cOAS/workspaceTrusted';
+
+// Validates a document through the roots including it
+export const ValidateDocumentRequest = 'cOAS/validateDocument';
+
+export type ValidateDocumentParams = {
+  uri: string;
+};
+
+// Validates every root document of the workspace matching the `include` and `exclude`
+// settings, reporting progress to the `workDoneToken` of the params
+export const ValidateWorkspaceRequest = 'cOAS/validateWorkspace';
+
+export type ValidateWorkspaceParams = {
+  workDoneToken?: string | number;
+};
+
+// How many documents were validated before the request completed or was cancelled
+export type ValidateWorkspaceResult = {
+  validated: number;
+  total: number;
+};
+
+// The extension definitions that apply to a document, from its project config or the settings
+export const ExtensionsRequest = 'cOAS/extensions';
+
+export type ExtensionsParams = {
+  uri: string;
+};
+
+export type ExtensionsResult = CustomExtension[];
+
+// The sections of a document of the extension's location that are missing it, each with the
+// edit inserting it. Null when the document is not an OpenAPI document the server can parse.
+export const ExtensionInsertionsRequest = 'cOAS/extensionInsertions';
+
+export type ExtensionInsertionsParams = {
+  uri: string;
+  extension: CustomExtension;
+};
+
+export type ExtensionInsertion = {
+  label: string;
+  // What tells sections apart beyond their label: a server url, a tag or parameter name, ...
+  description?: string;
+  edit: TextEdit;
+};
+
+export type ExtensionInsertionsResult = ExtensionInsertion[] | null;
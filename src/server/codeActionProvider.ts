@@ -0,0 +1,329 @@
+import {
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  Diagnostic,
+  Position,
+  Range,
+  TextEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { insertExtensions } from '../extensionEdits';
+import { CustomExtension, FindingFix } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { DocumentFormat, SourceMap, formatOfDocument } from '../validator/sourceMap';
+import { parseDirective } from '../validator/suppressions';
+import { DiagnosticData } from './diagnosticsProvider';
+import { lineAt } from './textLines';
+
+const DIAGNOSTIC_SOURCE = 'Customized OAS';
+
+// Also requested by `editor.codeActionsOnSave`
+const FIX_ALL_KIND = `${CodeActionKind.SourceFixAll}.cOAS`;
+
+// Findings that cannot be silenced by a comment
+const UNSUPPRESSIBLE_RULES = ['parse-error', 'unused-suppression'];
+
+// Whether `kind` is `requested` or one of its sub-kinds
+function containsKind(requested: string, kind: string): boolean {
+  return kind === requested || kind.startsWith(`${requested}.`);
+}
+
+export class OpenAPICodeActionProvider {
+  public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix, FIX_ALL_KIND];
+
+  constructor(
+    // The diagnostics published for a document, fix all applies the fixes they hold
+    private getDiagnostics: (uri: string) => Diagnostic[] = () => [],
+    // Parsed documents, shared with the diagnostics
+    private documents = new DocumentCache()
+  ) {}
+
+  public provideCodeActions(document: TextDocument, context: CodeActionContext): CodeAction[] {
+    const format = formatOfDocument(document);
+    if (context.only?.some((kind) => containsKind(kind, FIX_ALL_KIND))) {
+      const fixAll = this.createFixAllAction(document, format, FIX_ALL_KIND);
+      return fixAll ? [fixAll] : [];
+    }
+
+    const actions = new Map<string, CodeAction>();
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE || diagnostic.code === undefined) {
+        continue;
+      }
+      const rule = String(diagnostic.code);
+
+      const fix = this.getFix(diagnostic);
+      const fixAction = fix && this.createFixAction(document, format, diagnostic, fix);
+      if (fixAction) {
+        actions.set(`fix:${fixAction.title}:${diagnostic.range.start.line}`, fixAction);
+      }
+
+      // Suppression comments are YAML only, JSON has no comments
+      if (format !== 'yaml') {
+        continue;
+      }
+
+      if (rule === 'unused-suppression') {
+        const action = this.createRemoveAction(document, diagnostic);
+        actions.set(`remove:${diagnostic.range.start.line}:${action.title}`, action);
+        continue;
+      }
+      if (UNSUPPRESSIBLE_RULES.includes(rule)) {
+        continue;
+      }
+
+      // One action per rule and line when several findings share them
+      const line = diagnostic.range.start.line;
+      actions.set(`line:${line}:${rule}`, this.createDisableLineAction(document, diagnostic, rule));
+      if (!actions.has(`file:${rule}`)) {
+        actions.set(`file:${rule}`, this.createDisableFileAction(document, diagnostic, rule));
+      }
+    }
+
+    if ([...actions.keys()].some((key) => key.startsWith('fix:'))) {
+      const fixAll = this.createFixAllAction(document, format, CodeActionKind.QuickFix);
+      if (fixAll) {
+        actions.set('fix-all', fixAll);
+      }
+    }
+    return [...actions.values()];
+  }
+
+  private getFix(diagnostic: Diagnostic): FindingFix | undefined {
+    return (diagnostic.data as DiagnosticData | undefined)?.fix;
+  }
+
+  private createFixAction(
+    document: TextDocument,
+    format: DocumentFormat,
+    diagnostic: Diagnostic,
+    fix: FindingFix
+  ): CodeAction | undefined {
+    const title =
+      fix.kind === 'add-extension'
+        ? `Add ${fix.extension.name}`
+        : `Convert value to ${JSON.stringify(fix.value)}`;
+    const action = this.createAction(title, diagnostic);
+    action.isPreferred = true;
+
+    const sourceMap = this.documents.get(document.getText(), format).sourceMap;
+    const edit =
+      fix.kind === 'add-extension'
+        ? insertExtensions(document, sourceMap, fix.path, [fix.extension])
+        : this.replaceValue(sourceMap, fix.path, fix.value);
+    if (!edit) {
+      return undefined;
+    }
+    this.edits(action, document).push(edit);
+    return action;
+  }
+
+  /**
+   * Applies the fix of every finding of the document. Returns undefined when there are fewer
+   * than two, the single fix is offered on its own.
+   */
+  private createFixAllAction(
+    document: TextDocument,
+    format: DocumentFormat,
+    kind: string
+  ): CodeAction | undefined {
+    // A fragment included by several roots gets the same finding from each of them, its fix
+    // is applied once
+    const fixes = new Map<string, { fix: FindingFix; diagnostics: Diagnostic[] }>();
+    for (const diagnostic of this.getDiagnostics(document.uri)) {
+      const fix = this.getFix(diagnostic);
+      if (!fix) {
+        continue;
+      }
+      const key = JSON.stringify(
+        fix.kind === 'add-extension' ? [fix.path, fix.extension.name] : fix.path
+      );
+      const fixed = fixes.get(key) ?? { fix, diagnostics: [] };
+      fixed.diagnostics.push(diagnostic);
+      fixes.set(key, fixed);
+    }
+    if (fixes.size < 2 && kind === CodeActionKind.QuickFix) {
+      return undefined;
+    }
+
+    const action = CodeAction.create('Fix all missing and mistyped extensions', kind);
+    const edits = this.edits(action, document);
+    const sourceMap = this.documents.get(document.getText(), format).sourceMap;
+    const applied: Diagnostic[] = [];
+
+    // Extensions missing from the same section are inserted together
+    const missing = new Map<string, { path: (string | number)[]; extensions: CustomExtension[] }>();
+    for (const { fix, diagnostics } of fixes.values()) {
+      if (fix.kind === 'add-extension') {
+        const key = JSON.stringify(fix.path);
+        const section = missing.get(key) ?? { path: fix.path, extensions: [] };
+        section.extensions.push(fix.extension);
+        missing.set(key, section);
+        applied.push(...diagnostics);
+        continue;
+      }
+      const edit = this.replaceValue(sourceMap, fix.path, fix.value);
+      if (edit) {
+        edits.push(edit);
+        applied.push(...diagnostics);
+      }
+    }
+    for (const { path, extensions } of missing.values()) {
+      const edit = insertExtensions(document, sourceMap, path, extensions);
+      if (edit) {
+        edits.push(edit);
+      }
+    }
+
+    action.diagnostics = applied;
+    return applied.length > 0 ? action : undefined;
+  }
+
+  private replaceValue(
+    sourceMap: SourceMap,
+    path: (string | number)[],
+    value: any
+  ): TextEdit | undefined {
+    const location = sourceMap.locate(path, 'value');
+    if (!location || location.endLine === undefined || location.endColumn === undefined) {
+      return undefined;
+    }
+    // JSON values are valid YAML flow values
+    return TextEdit.replace(
+      Range.create(
+        location.line - 1,
+        location.column - 1,
+        location.endLine - 1,
+        location.endColumn - 1
+      ),
+      JSON.stringify(value)
+    );
+  }
+
+  private createDisableLineAction(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    rule: string
+  ): CodeAction {
+    const action = this.createAction(`Disable ${rule} for this line`, diagnostic);
+    const line = lineAt(document, diagnostic.range.start.line);
+
+    // Several rules of a line share one comment, it must stay right above the line
+    if (line.lineNumber > 0 && this.addToDirective(action, document, line.lineNumber - 1, rule)) {
+      return action;
+    }
+    const indentation = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+    this.edits(action, document).push(
+      TextEdit.insert(line.range.start, `${indentation}# coas-disable-next-line ${rule}\n`)
+    );
+    return action;
+  }
+
+  private createDisableFileAction(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    rule: string
+  ): CodeAction {
+    const action = this.createAction(`Disable ${rule} for the entire file`, diagnostic);
+    if (!this.addToDirective(action, document, 0, rule, 'disable-file')) {
+      this.edits(action, document).push(
+        TextEdit.insert(Position.create(0, 0), `# coas-disable-file ${rule}\n`)
+      );
+    }
+    return action;
+  }
+
+  /**
+   * Removes an unused comment, or the unused rule from a comment naming several rules.
+   */
+  private createRemoveAction(document: TextDocument, diagnostic: Diagnostic): CodeAction {
+    const { start, end } = diagnostic.range;
+    const line = lineAt(document, start.line);
+    const commentStart = line.text.lastIndexOf('#', start.character);
+    const comment = line.text.slice(commentStart);
+    const directive = parseDirective(comment);
+
+    // The finding covers the whole comment, or only the unused rule
+    const rule =
+      start.character === commentStart
+        ? undefined
+        : line.text.slice(start.character, end.character);
+    const action = this.createAction(
+      rule === undefined
+        ? 'Remove unused suppression comment'
+        : `Remove unused ${rule} suppression`,
+      diagnostic
+    );
+
+    const edits = this.edits(action, document);
+    if (rule !== undefined && directive) {
+      const rules = directive.rules.map(({ name }) => name).filter((name) => name !== rule);
+      edits.push(
+        TextEdit.replace(
+          Range.create(start.line, commentStart, start.line, line.text.length),
+          this.formatDirective(comment, directive.kind, rules)
+        )
+      );
+    } else if (line.firstNonWhitespaceCharacterIndex === commentStart) {
+      edits.push(TextEdit.del(line.rangeIncludingLineBreak));
+    } else {
+      const codeEnd = line.text.slice(0, commentStart).trimEnd().length;
+      edits.push(TextEdit.del(Range.create(start.line, codeEnd, start.line, line.text.length)));
+    }
+    return action;
+  }
+
+  /**
+   * Adds `rule` to the directive comment on `lineNumber` when it is of `kind` and names rules.
+   * Returns false when there is no such comment.
+   */
+  private addToDirective(
+    action: CodeAction,
+    document: TextDocument,
+    lineNumber: number,
+    rule: string,
+    kind = 'disable-next-line'
+  ): boolean {
+    const line = lineAt(document, lineNumber);
+    const comment = line.text.slice(line.firstNonWhitespaceCharacterIndex);
+    const directive = parseDirective(comment);
+    if (!directive || directive.kind !== kind || directive.rules.length === 0) {
+      return false;
+    }
+
+    const rules = [...directive.rules.map(({ name }) => name), rule];
+    this.edits(action, document).push(
+      TextEdit.replace(
+        Range.create(
+          lineNumber,
+          line.firstNonWhitespaceCharacterIndex,
+          lineNumber,
+          line.text.length
+        ),
+        this.formatDirective(comment, directive.kind, rules)
+      )
+    );
+    return true;
+  }
+
+  // Rewrites a directive comment with other rules, keeping its reason
+  private formatDirective(comment: string, kind: string, rules: string[]): string {
+    const reasonIndex = comment.indexOf(' -- ');
+    const reason = reasonIndex >= 0 ? comment.slice(reasonIndex) : '';
+    return `# coas-${kind}${rules.length > 0 ? ` ${rules.join(', ')}` : ''}${reason}`;
+  }
+
+  private createAction(title: string, diagnostic: Diagnostic): CodeAction {
+    const action = CodeAction.create(title, CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    return action;
+  }
+
+  // The edits of `action` to `document`, created empty on first use
+  private edits(action: CodeAction, document: TextDocument): TextEdit[] {
+    action.edit ??= { changes: {} };
+    action.edit.changes![document.uri] ??= [];
+    return action.edit.changes![document.uri];
+  }
+}
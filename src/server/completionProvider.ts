@@ -0,0 +1,175 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  InsertTextFormat,
+  MarkupKind,
+  Position,
+  Range,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createSnippet } from '../snippets';
+import { CustomExtension } from '../types';
+import { ExtensionLocation } from '../validator/enums';
+import { DocumentCache } from '../validator/documentCache';
+import { isRequiredAnywhere } from '../validator/requirement';
+import { DocumentFormat, JsonSourceMap, formatOfDocument } from '../validator/sourceMap';
+import { DocumentSettings } from './documentSettings';
+import { ExtensionLocator } from './extensionLocator';
+import { lineAt } from './textLines';
+
+export class OpenAPICompletionProvider {
+  constructor(
+    // The definitions of each document, shared with the other providers
+    private settings = new DocumentSettings(),
+    // Parsed documents, shared with the diagnostics
+    private documents = new DocumentCache(),
+    private locator = new ExtensionLocator(documents)
+  ) {}
+
+  public provideCompletionItems(document: TextDocument, position: Position): CompletionItem[] {
+    const lineText = lineAt(document, position.line).text;
+    const linePrefix = lineText.substring(0, position.character);
+    const format = formatOfDocument(document);
+
+    // Check if we're typing an extension (starts with 'x-'), JSON keys may follow `{` or `,`
+    const extensionMatch =
+      format === 'json'
+        ? linePrefix.match(/(?:^|[{,])\s*("?(?:x-[\w-]*)?)$/)
+        : linePrefix.match(/^\s*(x-[\w-]*)?$/);
+    if (!extensionMatch) {
+      return [];
+    }
+
+    // Determine the current context/location in the OpenAPI document
+    const locations = this.determineExtensionLocations(document, position, format);
+    if (locations.length === 0) {
+      return [];
+    }
+
+    const completionItems: CompletionItem[] = [];
+
+    // Filter extensions based on current location
+    const relevantExtensions = this.settings
+      .getExtensions(document.uri)
+      .filter((extension) => locations.includes(extension.in));
+
+    for (const extension of relevantExtensions) {
+      let documentation =
+        extension.description ||
+        `Custom extension of type ${extension.type} for ${extension.in} section`;
+      if ((extension.type === 'string' || extension.type === 'number') && extension.enum) {
+        documentation += `\n\nAllowed values: ${extension.enum.map((value) => `\`${value}\``).join(', ')}`;
+      }
+
+      // Create appropriate snippet based on type
+      const snippet = createSnippet(extension, format);
+
+      // Create precise range for replacement
+      const range = this.createReplacementRange(position, lineText, extensionMatch[1] ?? '');
+
+      completionItems.push({
+        label: extension.name,
+        kind: CompletionItemKind.Property,
+        detail: `Custom Extension (${extension.type}) - ${extension.in}`,
+        documentation: { kind: MarkupKind.Markdown, value: documentation },
+        insertTextFormat: InsertTextFormat.Snippet,
+        ...(range ? { textEdit: { range, newText: snippet } } : { insertText: snippet }),
+        // Add sorting priority for required extensions
+        sortText: isRequiredAnywhere(extension.required)
+          ? '0' + extension.name
+          : '1' + extension.name,
+      });
+    }
+
+    return completionItems;
+  }
+
+  private determineExtensionLocations(
+    document: TextDocument,
+    position: Position,
+    format: DocumentFormat
+  ): ExtensionLocation[] {
+    if (format === 'json') {
+      // Only property keys of an object can be extensions
+      const { sourceMap } = this.documents.get(document.getText(), format);
+      const objectPath =
+        sourceMap instanceof JsonSourceMap &&
+        sourceMap.objectPathAt(position.line + 1, position.character + 1);
+      return objectPath
+        ? this.locator.locationsAt(document.uri, document.getText(), objectPath)
+        : [];
+    }
+
+    // The key being typed does not parse yet, a complete one in its place locates the mapping
+    // holding it, array indexes included
+    const lines = document.getText().split('\n');
+    const indentation = lines[position.line].match(/^\s*/)![0];
+    lines[position.line] = `${indentation}x-: null`;
+    const content = lines.join('\n');
+    const found = this.documents
+      .get(content, format)
+      .sourceMap.keyAt(position.line + 1, indentation.length + 1);
+
+    // Otherwise the path of keys is taken from the indentation of the lines above
+    const path = found?.key === 'x-' ? found.path : this.getYamlPath(document, position);
+    return this.locator.locationsAt(document.uri, content, path);
+  }
+
+  private getYamlPath(document: TextDocument, position: Position): string[] {
+    const lines = document.getText().split('\n');
+    const path: string[] = [];
+    const currentLine = lines[position.line];
+    let currentIndentation = currentLine.length - currentLine.trimStart().length;
+
+    // Walk backwards from current position to build the path
+    for (let i = position.line - 1; i >= 0; i--) {
+      const line = lines[i];
+      const trimmed = line.trim();
+
+      if (trimmed === '' || trimmed.startsWith('#')) {
+        continue;
+      }
+
+      // Keys of a "- key:" sequence item sit after the dash
+      const match = trimmed.match(/^(-\s+)?(?:"([^"]*)"|'([^']*)'|([^\s"'#:][^#:]*?))\s*:(?:\s|$)/);
+      const indentation = this.getIndentation(line) + (match?.[1]?.length ?? 0);
+
+      // Only a key with less indentation can be a parent
+      if (match && indentation < currentIndentation) {
+        path.unshift(match[2] ?? match[3] ?? match[4]);
+        currentIndentation = indentation;
+      }
+    }
+
+    return path;
+  }
+
+  private getIndentation(line: string): number {
+    const match = line.match(/^(\s*)\S/);
+    return match ? match[1].length : 0;
+  }
+
+  private createReplacementRange(
+    position: Position,
+    lineText: string,
+    typed: string
+  ): Range | undefined {
+    // If nothing was typed yet, just insert at current position
+    if (typed === '') {
+      return undefined;
+    }
+
+    // Replace the typed 'x-' prefix, with the quotes of a JSON key (the closing one is
+    // usually inserted by the editor)
+    const endCharacter =
+      typed.startsWith('"') && lineText[position.character] === '"'
+        ? position.character + 1
+        : position.character;
+    return Range.create(
+      position.line,
+      position.character - typed.length,
+      position.line,
+      endCharacter
+    );
+  }
+}
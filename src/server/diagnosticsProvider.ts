@@ -0,0 +1,444 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CancellationToken,
+  CancellationTokenSource,
+  Connection,
+  Diagnostic,
+  DiagnosticSeverity,
+  DiagnosticTag,
+  Location,
+  Range,
+  TextDocuments,
+  WorkDoneProgressReporter,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ValidateWorkspaceResult } from '../protocol';
+import { FindingFix, RelatedInformation, ValidationError, ValidationResult } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { ReferenceGraph, isRootDocument } from '../validator/referenceGraph';
+import { OpenAPIValidator } from '../validator/validator';
+import { DocumentSettings } from './documentSettings';
+import { SPEC_FILES_GLOB, findFiles, toFile, toUri } from './files';
+import { lineAt } from './textLines';
+
+// Milliseconds a changed document must stay unchanged before it is validated
+const DEFAULT_VALIDATION_DELAY = 300;
+
+// Attached to published diagnostics, code actions read their fix from it
+export type DiagnosticData = {
+  fix?: FindingFix;
+};
+
+const diagnosticSeverities: Record<ValidationError['severity'], DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+export class OpenAPIDiagnosticsProvider {
+  private validator = new OpenAPIValidator([]);
+  private referenceGraph: ReferenceGraph;
+  // Findings by validated root document, then by file they were reported in
+  private publishedDiagnostics = new Map<string, Map<string, Diagnostic[]>>();
+  private validationDelay = DEFAULT_VALIDATION_DELAY;
+  // Validations waiting for a document to stop changing, and those in progress, by document
+  private pendingValidations = new Map<string, ReturnType<typeof setTimeout>>();
+  private runningValidations = new Map<string, CancellationTokenSource>();
+  // Version of each open document last validated
+  private validatedVersions = new Map<string, number>();
+
+  constructor(
+    private connection: Connection,
+    // Documents open in the editor, their content is preferred over the files on disk
+    private openDocuments: TextDocuments<TextDocument>,
+    // The definitions of each document, shared with the other providers
+    private settings = new DocumentSettings(),
+    // Parsed documents, shared with the other providers
+    private documents = new DocumentCache()
+  ) {
+    this.referenceGraph = new ReferenceGraph(documents);
+  }
+
+  /**
+   * Builds the reference graph of the workspace folders, then lints the roots of every open
+   * document so that fragments opened before the scan get their diagnostics.
+   */
+  public initialize(folders: string[]): void {
+    for (const file of findFiles(folders, [SPEC_FILES_GLOB], ['**/node_modules/**'])) {
+      const content = this.readFile(file);
+      if (content !== undefined) {
+        this.referenceGraph.update(file, content);
+      }
+    }
+
+    const roots = new Set(
+      this.openDocuments.all().flatMap((document) => {
+        const file = toFile(document.uri);
+        return file === undefined ? [] : this.referenceGraph.getRoots(file);
+      })
+    );
+    roots.forEach((root) => this.validateRoot(root));
+  }
+
+  /**
+   * Indexes the files of `folders` matching `include` and validates every root document among
+   * them, so that the Problems view covers files that were never opened. The file watcher
+   * keeps their diagnostics current afterwards. Returns how many documents were validated
+   * before the operation completed or was cancelled, and how many were found.
+   */
+  public async validateWorkspace(
+    folders: string[],
+    include: string[],
+    exclude: string[],
+    progress: WorkDoneProgressReporter,
+    token: CancellationToken
+  ): Promise<ValidateWorkspaceResult> {
+    progress.begin('Validating OpenAPI files', 0, undefined, true);
+    const files = findFiles(folders, include, exclude);
+    for (const file of files) {
+      const content = this.readFile(file);
+      if (content !== undefined) {
+        this.referenceGraph.update(file, content);
+      }
+    }
+
+    const roots = files.filter((file) => this.referenceGraph.isRoot(file));
+    const relativePath = (file: string) => {
+      const folder = folders.find((candidate) => !path.relative(candidate, file).startsWith('..'));
+      return folder ? path.relative(folder, file) : file;
+    };
+    let validated = 0;
+    for (const root of roots) {
+      if (token.isCancellationRequested) {
+        break;
+      }
+      progress.report(Math.round((validated / roots.length) * 100), relativePath(root));
+      this.validateRoot(root);
+      validated++;
+      // Let the server process other requests between documents
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    progress.done();
+    return { validated, total: roots.length };
+  }
+
+  /**
+   * Validates a changed document once it has stopped changing for the validation delay, so
+   * that typing does not validate on every keystroke. A version already validated, e.g. when
+   * the document was opened, is skipped.
+   */
+  public scheduleValidation(document: TextDocument): void {
+    if (this.validatedVersions.get(document.uri) === document.version) {
+      return;
+    }
+    this.cancelValidation(document.uri);
+    this.pendingValidations.set(
+      document.uri,
+      setTimeout(() => {
+        this.pendingValidations.delete(document.uri);
+        this.validateDocument(document);
+      }, this.validationDelay)
+    );
+  }
+
+  /**
+   * Drops the scheduled validation of a document, and the roots the one in progress has not
+   * validated yet, whose results would be outdated. A root being validated runs to completion.
+   */
+  private cancelValidation(uri: string): void {
+    clearTimeout(this.pendingValidations.get(uri));
+    this.pendingValidations.delete(uri);
+    this.runningValidations.get(uri)?.cancel();
+    this.runningValidations.delete(uri);
+  }
+
+  /**
+   * Stops validating a closed document.
+   */
+  public closeDocument(uri: string): void {
+    this.cancelValidation(uri);
+    this.validatedVersions.delete(uri);
+  }
+
+  public async validateDocument(document: TextDocument): Promise<void> {
+    if (document.uri.endsWith('.git')) {
+      return;
+    }
+    this.cancelValidation(document.uri);
+    this.validatedVersions.set(document.uri, document.version);
+
+    // Documents that are not saved to disk cannot be part of a multi-file specification
+    const file = toFile(document.uri);
+    if (file === undefined) {
+      if (isRootDocument(document.getText())) {
+        const result = this.validator.validateDocument(document.getText(), {
+          documents: this.documents,
+          ...this.settings.getValidationOptions(document.uri),
+        });
+        this.publishDiagnostics(document.uri, result);
+      }
+      return;
+    }
+
+    const wasRoot = this.referenceGraph.isRoot(file);
+    if (
+      !isRootDocument(document.getText()) &&
+      !wasRoot &&
+      this.referenceGraph.getRoots(file).length === 0
+    ) {
+      return;
+    }
+
+    // Lint the document through every root that includes it, itself when it is a root
+    this.referenceGraph.update(file, document.getText());
+    if (wasRoot && !this.referenceGraph.isRoot(file)) {
+      this.updateDiagnostics(toUri(file), new Map());
+    }
+
+    // A change of the document cancels the roots not validated yet, the next run covers them
+    const run = new CancellationTokenSource();
+    this.runningValidations.set(document.uri, run);
+    try {
+      for (const [index, root] of this.referenceGraph.getRoots(file).entries()) {
+        if (index > 0) {
+          await new Promise((resolve) => setImmediate(resolve));
+        }
+        if (run.token.isCancellationRequested) {
+          return;
+        }
+        this.validateRoot(root);
+      }
+    } finally {
+      if (this.runningValidations.get(document.uri) === run) {
+        this.runningValidations.delete(document.uri);
+      }
+      run.dispose();
+    }
+  }
+
+  private validateRoot(root: string): void {
+    const content = this.readFile(root);
+    if (content === undefined) {
+      return;
+    }
+
+    const result = this.validator.validateDocument(content, {
+      file: root,
+      readFile: (file) => this.readFile(file),
+      documents: this.documents,
+      ...this.settings.getValidationOptions(toUri(root)),
+    });
+    this.publishDiagnostics(toUri(root), result);
+  }
+
+  /**
+   * Updates the reference graph for a file changed outside of the editor and re-validates the
+   * roots depending on it.
+   */
+  public onFileChanged(file: string): void {
+    // Open documents are handled by the text document events
+    if (this.findOpenDocument(file)) {
+      return;
+    }
+
+    const content = this.readFile(file);
+    if (content === undefined) {
+      return;
+    }
+    const changed = this.referenceGraph.update(file, content);
+
+    // Re-validate the dependents that currently have diagnostics
+    for (const root of this.referenceGraph.getRoots(file)) {
+      if (changed || this.publishedDiagnostics.has(toUri(root))) {
+        this.validateRoot(root);
+      }
+    }
+  }
+
+  public onFileDeleted(file: string): void {
+    const roots = this.referenceGraph.getRoots(file);
+    this.referenceGraph.remove(file);
+    this.updateDiagnostics(toUri(file), new Map());
+
+    for (const root of roots) {
+      if (root !== file) {
+        this.validateRoot(root);
+      }
+    }
+  }
+
+  /**
+   * The root documents including `file`, itself when it is a root.
+   */
+  public getRoots(file: string): string[] {
+    return this.referenceGraph.getRoots(file);
+  }
+
+  public readFile(file: string): string | undefined {
+    // Prefer the editor's content so unsaved changes of referenced files are honoured
+    const openDocument = this.findOpenDocument(file);
+    if (openDocument) {
+      return openDocument.getText();
+    }
+
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private findOpenDocument(file: string): TextDocument | undefined {
+    return this.openDocuments.all().find((document) => toFile(document.uri) === file);
+  }
+
+  /**
+   * Groups the findings of a root document by the file they were reported in.
+   */
+  private publishDiagnostics(root: string, result: ValidationResult): void {
+    const byFile = new Map<string, Diagnostic[]>([[root, []]]);
+    const add = (uri: string, diagnostic: Diagnostic) => {
+      byFile.set(uri, [...(byFile.get(uri) ?? []), diagnostic]);
+    };
+
+    for (const finding of [...result.errors, ...result.warnings]) {
+      add(
+        finding.file === undefined ? root : toUri(finding.file),
+        this.createDiagnostic(root, finding)
+      );
+    }
+
+    this.updateDiagnostics(root, byFile);
+  }
+
+  private createDiagnostic(root: string, error: ValidationError): Diagnostic {
+    const uri = error.file === undefined ? root : toUri(error.file);
+    const diagnostic: Diagnostic = {
+      range: this.createRange(uri, error),
+      message: error.message,
+      severity: diagnosticSeverities[error.severity],
+      source: 'Customized OAS',
+      code: error.extensionName,
+    };
+    if (error.extensionName === 'unused-suppression') {
+      diagnostic.tags = [DiagnosticTag.Unnecessary];
+    }
+    if (error.fix) {
+      diagnostic.data = { fix: error.fix } satisfies DiagnosticData;
+    }
+    if (error.related) {
+      diagnostic.relatedInformation = error.related.map((related) => ({
+        location: this.createLocation(root, related),
+        message: related.message,
+      }));
+    }
+    return diagnostic;
+  }
+
+  /**
+   * The diagnostics published for `uri` by every root including it.
+   */
+  public getDiagnostics(uri: string): Diagnostic[] {
+    const file = toFile(uri);
+    const key = file === undefined ? uri : toUri(file);
+    return [...this.publishedDiagnostics.values()].flatMap((byFile) => byFile.get(key) ?? []);
+  }
+
+  private createLocation(root: string, related: RelatedInformation): Location {
+    const uri = related.file === undefined ? root : toUri(related.file);
+    return { uri, range: this.createRange(uri, related) };
+  }
+
+  /**
+   * Replaces the findings `root` reported, then republishes each affected file with the
+   * findings of every root including it.
+   */
+  private updateDiagnostics(root: string, byFile: Map<string, Diagnostic[]>): void {
+    const affected = new Set([
+      ...(this.publishedDiagnostics.get(root)?.keys() ?? []),
+      ...byFile.keys(),
+    ]);
+    if (byFile.size > 0) {
+      this.publishedDiagnostics.set(root, byFile);
+    } else {
+      this.publishedDiagnostics.delete(root);
+    }
+
+    for (const uri of affected) {
+      const diagnostics = [...this.publishedDiagnostics.values()].flatMap(
+        (published) => published.get(uri) ?? []
+      );
+      this.connection.sendDiagnostics({ uri, diagnostics });
+    }
+  }
+
+  /**
+   * Creates a range in a file that may not be open in the editor. Positions without a known
+   * end highlight up to 20 characters.
+   */
+  private createRange(
+    uri: string,
+    { line, column, endLine, endColumn }: Omit<RelatedInformation, 'message' | 'file'>
+  ): Range {
+    if (line === undefined) {
+      return Range.create(0, 0, 0, 0);
+    }
+
+    const lineIndex = Math.max(0, line - 1);
+    const columnIndex = Math.max(0, (column || 1) - 1);
+    if (endLine !== undefined && endColumn !== undefined) {
+      return Range.create(lineIndex, columnIndex, endLine - 1, endColumn - 1);
+    }
+
+    const file = toFile(uri);
+    const document = file === undefined ? this.openDocuments.get(uri) : this.findOpenDocument(file);
+    if (!document) {
+      return Range.create(lineIndex, columnIndex, lineIndex, columnIndex + 20);
+    }
+
+    if (lineIndex >= document.lineCount) {
+      const lastLine = document.lineCount - 1;
+      const lastLineText = lineAt(document, lastLine).text;
+      return Range.create(lastLine, lastLineText.length, lastLine, lastLineText.length);
+    }
+
+    const lineText = lineAt(document, lineIndex).text;
+    const endIndex = Math.min(columnIndex + 20, lineText.length); // Highlight up to 20 chars or end of line
+
+    return Range.create(lineIndex, columnIndex, lineIndex, endIndex);
+  }
+
+  public setValidationDelay(delay: number): void {
+    this.validationDelay = delay;
+  }
+
+  /**
+   * Re-validates the open documents and the roots that have diagnostics, e.g. when the
+   * settings or the project configs changed.
+   */
+  public revalidate(): void {
+    for (const root of this.publishedDiagnostics.keys()) {
+      const file = toFile(root);
+      if (file !== undefined) {
+        this.validateRoot(file);
+      }
+    }
+    this.openDocuments.all().forEach((document) => this.validateDocument(document));
+  }
+
+  /**
+   * Removes every published diagnostic, e.g. when linting is turned off.
+   */
+  public clear(): void {
+    this.pendingValidations.forEach((timeout) => clearTimeout(timeout));
+    this.pendingValidations.clear();
+    this.runningValidations.forEach((run) => run.cancel());
+    this.runningValidations.clear();
+    this.validatedVersions.clear();
+    for (const root of [...this.publishedDiagnostics.keys()]) {
+      this.updateDiagnostics(root, new Map());
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { ProjectConfig, findConfigFor } from '../config/projectConfig';
+import { CustomExtension } from '../types';
+import { ValidationOptions } from '../validator/validator';
+import { toFile } from './files';
+
+// Options of the `cOAS` settings, for files outside of projects with a config file
+export type SettingOptions = Pick<ValidationOptions, 'rules' | 'strict'>;
+
+/**
+ * The definitions and options that apply to each document: those of the project config
+ * covering it, otherwise those of the `cOAS` settings. Shared by the providers of the server.
+ */
+export class DocumentSettings {
+  constructor(
+    private customExtensions: CustomExtension[] = [],
+    private settingOptions: SettingOptions = {},
+    // Definitions of the files of projects with a config file, in place of the setting
+    private projectConfigs: ProjectConfig[] = []
+  ) {}
+
+  public getConfig(uri: string): ProjectConfig | undefined {
+    const file = toFile(uri);
+    return file !== undefined ? findConfigFor(this.projectConfigs, file) : undefined;
+  }
+
+  public getExtensions(uri: string): CustomExtension[] {
+    const config = this.getConfig(uri);
+    return config ? config.getExtensions(toFile(uri)!) : this.customExtensions;
+  }
+
+  /**
+   * The options validating the document at `uri` with, its definitions included.
+   */
+  public getValidationOptions(uri: string): ValidationOptions {
+    const config = this.getConfig(uri);
+    if (!config) {
+      return { customExtensions: this.customExtensions, ...this.settingOptions };
+    }
+    const file = toFile(uri)!;
+    return {
+      customExtensions: config.getExtensions(file),
+      rules: config.getRules(file),
+      strict: config.strict,
+      customRules: config.customRules,
+    };
+  }
+
+  public updateSettings(extensions: CustomExtension[], options: SettingOptions): void {
+    this.customExtensions = extensions;
+    this.settingOptions = options;
+  }
+
+  public setProjectConfigs(configs: ProjectConfig[]): void {
+    this.projectConfigs = configs;
+  }
+}
@@ -0,0 +1,64 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { insertExtensions } from '../extensionEdits';
+import { ExtensionInsertion } from '../protocol';
+import { CustomExtension } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { LocationTarget, collectLocationTargets } from '../validator/locations';
+import { isObject } from '../validator/nodes';
+import { RefResolver, siteKey } from '../validator/refResolver';
+import { isRootDocument } from '../validator/referenceGraph';
+import { formatOfDocument } from '../validator/sourceMap';
+import { toFile } from './files';
+
+/**
+ * The edits of the Add Custom Extension command, computed in the server so that the editor
+ * neither parses the document nor reads the files it references.
+ */
+export class OpenAPIExtensionInsertionProvider {
+  constructor(
+    // Reads a file of the workspace, the content of open documents first
+    private readFile?: (file: string) => string | undefined,
+    // Parsed documents, shared with the diagnostics
+    private documents = new DocumentCache()
+  ) {}
+
+  /**
+   * The sections of `document` of the extension's location that are missing it. Sections
+   * defined in other files are left to those files, shared ones are listed once. Returns null
+   * when the document is not an OpenAPI document.
+   */
+  public provideInsertions(
+    document: TextDocument,
+    extension: CustomExtension
+  ): ExtensionInsertion[] | null {
+    const content = document.getText();
+    const parsed = this.documents.get(content, formatOfDocument(document));
+    if (!isRootDocument(content) || !isObject(parsed.value)) {
+      return null;
+    }
+
+    const resolver = new RefResolver(content, parsed.value, {
+      file: toFile(document.uri),
+      readFile: this.readFile,
+      documents: this.documents,
+    });
+    const missing = new Map<string, LocationTarget>();
+    for (const target of collectLocationTargets(parsed.value, extension.in, resolver)) {
+      if (target.file === undefined && isObject(target.node) && !(extension.name in target.node)) {
+        missing.set(siteKey(target.file, target.path), target);
+      }
+    }
+
+    return [...missing.values()].flatMap((target) => {
+      const edit = insertExtensions(document, parsed.sourceMap, target.path, [extension]);
+      return edit
+        ? [{ label: target.label, description: this.describeNode(target.node), edit }]
+        : [];
+    });
+  }
+
+  private describeNode(node: any): string | undefined {
+    const description = node.name ?? node.url ?? node.operationId ?? node.summary;
+    return typeof description === 'string' ? description : undefined;
+  }
+}
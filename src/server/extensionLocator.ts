@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import { ExtensionLocation } from '../validator/enums';
+import { DocumentCache } from '../validator/documentCache';
+import { collectSiteLocations, locationOfPath } from '../validator/locations';
+import { RefResolver, siteKey } from '../validator/refResolver';
+import { isRootDocument } from '../validator/referenceGraph';
+import { detectFormat } from '../validator/sourceMap';
+import { toFile } from './files';
+
+/**
+ * Finds where extensions of which location belong in a document, the way the validator does:
+ * through the roots including the document, following their `$ref`s, so that a definition
+ * under `components` takes the location of the sections referencing it.
+ */
+export class ExtensionLocator {
+  constructor(
+    // Parsed documents, shared with the diagnostics
+    private documents = new DocumentCache(),
+    // Reads a file of the workspace, the content of open documents first
+    private readFile: (file: string) => string | undefined = readFromDisk,
+    // The root documents including a file, itself when it is a root
+    private getRoots: (file: string) => string[] = () => []
+  ) {}
+
+  /**
+   * The locations of the mapping at `path` in the document at `uri` whose text is `content`.
+   * Mappings no root reaches, e.g. in a fragment not referenced yet, are located by their
+   * path alone.
+   */
+  public locationsAt(uri: string, content: string, path: (string | number)[]): ExtensionLocation[] {
+    const file = toFile(uri);
+    const included = file !== undefined ? this.getRoots(file) : [];
+    // Unsaved documents, and those not indexed yet, are their own root when they are one
+    const roots = included.length === 0 && isRootDocument(content) ? [file] : included;
+
+    const locations = new Set<ExtensionLocation>();
+    for (const root of roots) {
+      const rootContent = root === file ? content : this.readFile(root!);
+      const document = rootContent !== undefined ? this.parse(rootContent) : undefined;
+      if (typeof document !== 'object' || document === null) {
+        continue;
+      }
+      const resolver = new RefResolver(rootContent!, document, {
+        file: root,
+        // The document may be edited and not saved yet
+        readFile: (candidate) => (candidate === file ? content : this.readFile(candidate)),
+        documents: this.documents,
+      });
+      const site = siteKey(root === file ? undefined : file, path);
+      collectSiteLocations(document, resolver)
+        .get(site)
+        ?.forEach((location) => locations.add(location));
+    }
+
+    if (locations.size === 0) {
+      const location = locationOfPath(path);
+      return location ? [location] : [];
+    }
+    return [...locations];
+  }
+
+  // JSON being typed rarely parses, its tolerant parse still locates the sections around it
+  private parse(content: string): any {
+    const parsed = this.documents.get(content);
+    if (parsed.value === undefined && detectFormat(content) === 'json') {
+      return jsonc.parse(content);
+    }
+    return parsed.value;
+  }
+}
+
+function readFromDisk(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
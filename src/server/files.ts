@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { minimatch } from 'minimatch';
+
+// Files that can be part of a multi-file specification
+export const SPEC_FILES_GLOB = '**/*.{yaml,yml,json}';
+
+/**
+ * Path of the file a `file:` URI names, undefined for other schemes such as unsaved documents.
+ */
+export function toFile(uri: string): string | undefined {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+}
+
+export function toUri(file: string): string {
+  return pathToFileURL(file).href;
+}
+
+/**
+ * Files under `folders` whose path relative to their folder matches one of `include` and none
+ * of `exclude`. Excluded directories and version control metadata are not searched.
+ */
+export function findFiles(folders: string[], include: string[], exclude: string[]): string[] {
+  const matches = (relative: string, patterns: string[]) =>
+    patterns.some((pattern) => minimatch(relative, pattern, { dot: true }));
+  const files: string[] = [];
+
+  const walk = (folder: string, directory: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const file = path.join(directory, entry.name);
+      const relative = path.relative(folder, file).split(path.sep).join('/');
+      if (entry.isDirectory()) {
+        // The trailing slash lets `**/node_modules/**` match the directory itself
+        if (entry.name !== '.git' && !matches(`${relative}/`, exclude)) {
+          walk(folder, file);
+        }
+      } else if (entry.isFile() && matches(relative, include) && !matches(relative, exclude)) {
+        files.push(file);
+      }
+    }
+  };
+  folders.forEach((folder) => walk(folder, folder));
+  return files;
+}
@@ -0,0 +1,169 @@
+import { Hover, MarkupKind, Position } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CustomExtension, CustomExtensionProperty } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { HttpMethod, HttpMethodEnum } from '../validator/enums';
+import {
+  RequirementContext,
+  isPropertyRequired,
+  isRequiredAnywhere,
+} from '../validator/requirement';
+import { formatOfDocument } from '../validator/sourceMap';
+import { DocumentSettings } from './documentSettings';
+import { ExtensionLocator } from './extensionLocator';
+import { lineAt } from './textLines';
+
+export class OpenAPIHoverProvider {
+  constructor(
+    // The definitions of each document, shared with the other providers
+    private settings = new DocumentSettings(),
+    // Parsed documents, shared with the diagnostics
+    private documents = new DocumentCache(),
+    private locator = new ExtensionLocator(documents)
+  ) {}
+
+  public provideHover(document: TextDocument, position: Position): Hover | null {
+    // Only keys that look like extensions are worth parsing the document for
+    const words = lineAt(document, position.line).text.matchAll(/x-[\w.-]*/g);
+    const onWord = [...words].some(
+      ({ index, 0: word }) =>
+        index <= position.character && position.character <= index + word.length
+    );
+    if (!onWord) {
+      return null;
+    }
+
+    const { sourceMap } = this.documents.get(document.getText(), formatOfDocument(document));
+    const found = sourceMap.keyAt(position.line + 1, position.character + 1);
+    if (!found?.key.startsWith('x-')) {
+      return null;
+    }
+
+    const definitions = this.settings
+      .getExtensions(document.uri)
+      .filter((extension) => extension.name === found.key);
+    if (definitions.length === 0) {
+      return null;
+    }
+
+    // A name can be defined for several locations, the one of this section is described
+    const locations = this.locator.locationsAt(document.uri, document.getText(), found.path);
+    const expected = definitions.find((definition) => locations.includes(definition.in));
+    const extension = expected ?? definitions[0];
+    let markdown = this.describe(extension, this.requirementAt(found.path));
+
+    const allowed = definitions.map((definition) => `\`${definition.in}\``);
+    if (!expected) {
+      markdown += `\n\n---\n\n⚠️ \`${extension.name}\` is not expected here, it is only allowed in ${allowed.join(', ')}`;
+    } else {
+      markdown += `\n\nAllowed in: ${allowed.join(', ')}`;
+    }
+
+    const { line, column, endLine, endColumn } = found.location;
+    return {
+      contents: { kind: MarkupKind.Markdown, value: markdown },
+      range: {
+        start: { line: line - 1, character: column - 1 },
+        end: { line: (endLine ?? line) - 1, character: (endColumn ?? column) - 1 },
+      },
+    };
+  }
+
+  // The operation a section belongs to, `required` selectors are matched against it
+  private requirementAt(path: (string | number)[]): RequirementContext {
+    const [section, pathKey, method] = path;
+    if (section !== 'paths' || typeof pathKey !== 'string') {
+      return {};
+    }
+    const isMethod = Object.values<string>(HttpMethodEnum).includes(String(method));
+    return isMethod ? { path: pathKey, method: method as HttpMethod } : { path: pathKey };
+  }
+
+  private describe(extension: CustomExtension, requirement: RequirementContext): string {
+    let markdown = `**${extension.name}**: \`${extension.type}\` — `;
+    markdown += this.describeRequired(extension.required);
+    if (extension.description) {
+      markdown += `\n\n${extension.description}`;
+    }
+
+    const constraints = this.describeConstraints(extension);
+    if (constraints.length > 0) {
+      const lines = constraints.map(
+        (constraint) => constraint[0].toUpperCase() + constraint.slice(1)
+      );
+      markdown += `\n\n${lines.join('  \n')}`;
+    }
+
+    const shape = this.describeShape(extension, '', requirement);
+    if (shape.length > 0) {
+      markdown += `\n\nShape:\n\n${shape.join('\n')}`;
+    }
+    return markdown;
+  }
+
+  private describeRequired(required: boolean | string[] | undefined): string {
+    if (!isRequiredAnywhere(required)) {
+      return 'optional';
+    }
+    if (Array.isArray(required)) {
+      return `required for ${required.map((selector) => `\`${selector}\``).join(', ')}`;
+    }
+    return 'required';
+  }
+
+  // Lower case, they are also listed inline for nested properties
+  private describeConstraints(property: CustomExtensionProperty): string[] {
+    const constraints: string[] = [];
+    if ((property.type === 'string' || property.type === 'number') && property.enum?.length) {
+      constraints.push(
+        `allowed values: ${property.enum.map((value) => `\`${value}\``).join(', ')}`
+      );
+    }
+    if (property.type === 'string') {
+      if (property.format) {
+        constraints.push(`format: \`${property.format}\``);
+      }
+      if (property.pattern) {
+        constraints.push(`pattern: \`${property.pattern}\``);
+      }
+      if (property.minLength !== undefined || property.maxLength !== undefined) {
+        constraints.push(
+          `length: ${property.minLength ?? 0} to ${property.maxLength ?? 'unlimited'}`
+        );
+      }
+    }
+    if (
+      property.type === 'number' &&
+      (property.minimum !== undefined || property.maximum !== undefined)
+    ) {
+      constraints.push(`range: ${property.minimum ?? '-∞'} to ${property.maximum ?? '∞'}`);
+    }
+    return constraints;
+  }
+
+  // Nested properties and items as an indented list
+  private describeShape(
+    property: CustomExtensionProperty,
+    indentation: string,
+    requirement: RequirementContext
+  ): string[] {
+    const entry = (label: string, nested: CustomExtensionProperty, optional: boolean) => {
+      const details = [...(optional ? ['optional'] : []), ...this.describeConstraints(nested)];
+      const description = nested.description ? ` — ${nested.description}` : '';
+      return [
+        `${indentation}- ${label}: \`${nested.type}\`${details.length > 0 ? ` (${details.join(', ')})` : ''}${description}`,
+        ...this.describeShape(nested, `${indentation}  `, requirement),
+      ];
+    };
+
+    if (property.type === 'object' && property.properties) {
+      return Object.entries(property.properties).flatMap(([key, nested]) =>
+        entry(`\`${key}\``, nested, !isPropertyRequired(property, key, nested, requirement))
+      );
+    }
+    if (property.type === 'array' && property.items) {
+      return entry('items', property.items, false);
+    }
+    return [];
+  }
+}
@@ -0,0 +1,62 @@
+import * as path from 'path';
+import { Connection } from 'vscode-languageserver/node';
+import {
+  PROJECT_CONFIG_FILES,
+  ProjectConfig,
+  findProjectConfig,
+  loadProjectConfig,
+} from '../config/projectConfig';
+
+/**
+ * Loads the project config file of every workspace folder and reloads them when a config
+ * file, or a preset one of them extends, changes. The server forwards the changed files it is
+ * notified of.
+ */
+export class ProjectConfigWatcher {
+  private configs: ProjectConfig[] = [];
+
+  constructor(private connection: Connection) {}
+
+  /**
+   * Loads the configs of `folders`, with their plugins and JavaScript presets when the
+   * workspace is `trusted`.
+   */
+  public load(folders: string[], trusted: boolean): ProjectConfig[] {
+    this.configs = [];
+    for (const folder of folders) {
+      const file = findProjectConfig(folder);
+      if (file === undefined) {
+        continue;
+      }
+      try {
+        const config = loadProjectConfig(file, trusted);
+        if (config.untrustedFiles.length > 0) {
+          this.connection.console.warn(
+            `${file}: ${config.untrustedFiles.join(', ')} not loaded until the workspace is trusted`
+          );
+        }
+        this.configs.push(config);
+      } catch (error) {
+        this.connection.window.showErrorMessage(`Customized OAS: ${(error as Error).message}`);
+      }
+    }
+    return this.configs;
+  }
+
+  /**
+   * Whether a change of `file` requires reloading the configs.
+   */
+  public isConfigFile(file: string): boolean {
+    return (
+      PROJECT_CONFIG_FILES.includes(path.basename(file)) ||
+      this.configs.some((config) => config.files.includes(file))
+    );
+  }
+
+  // Presets can live anywhere, e.g. in node_modules, so each one gets its own watcher
+  public getPresets(): string[] {
+    return this.configs
+      .flatMap((config) => config.files)
+      .filter((file) => !PROJECT_CONFIG_FILES.includes(path.basename(file)));
+  }
+}
@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import {
+  DidChangeConfigurationNotification,
+  DidChangeWatchedFilesNotification,
+  Disposable,
+  FileChangeType,
+  ProposedFeatures,
+  TextDocumentSyncKind,
+  TextDocuments,
+  createConnection,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { PROJECT_CONFIG_FILES } from '../config/projectConfig';
+import {
+  ExtensionInsertionsParams,
+  ExtensionInsertionsRequest,
+  ExtensionInsertionsResult,
+  ExtensionsParams,
+  ExtensionsRequest,
+  ExtensionsResult,
+  InitializationOptions,
+  ValidateDocumentParams,
+  ValidateDocumentRequest,
+  ValidateWorkspaceParams,
+  ValidateWorkspaceRequest,
+  ValidateWorkspaceResult,
+  WorkspaceTrustedNotification,
+} from '../protocol';
+import { CustomExtension, RuleSeverities, StrictMode } from '../types';
+import { DocumentCache } from '../validator/documentCache';
+import { OpenAPICodeActionProvider } from './codeActionProvider';
+import { OpenAPICompletionProvider } from './completionProvider';
+import { OpenAPIDiagnosticsProvider } from './diagnosticsProvider';
+import { DocumentSettings } from './documentSettings';
+import { OpenAPIExtensionInsertionProvider } from './extensionInsertionProvider';
+import { ExtensionLocator } from './extensionLocator';
+import { SPEC_FILES_GLOB, toFile, toUri } from './files';
+import { OpenAPIHoverProvider } from './hoverProvider';
+import { ProjectConfigWatcher } from './projectConfigWatcher';
+
+/**
+ * The `cOAS` settings, from the editor's configuration.
+ */
+type Settings = {
+  customExtensions: CustomExtension[];
+  enableLinting: boolean;
+  enableAutocompletion: boolean;
+  rules: RuleSeverities;
+  strict: StrictMode;
+  validationDelay: number;
+  include: string[];
+  exclude: string[];
+};
+
+const defaultSettings: Settings = {
+  customExtensions: [],
+  enableLinting: true,
+  enableAutocompletion: true,
+  rules: {},
+  strict: false,
+  validationDelay: 300,
+  include: [SPEC_FILES_GLOB],
+  exclude: ['**/node_modules/**'],
+};
+
+// The transport (`--stdio`, `--node-ipc` or `--socket=<port>`) is picked from the arguments
+const connection = createConnection(ProposedFeatures.all);
+const openDocuments = new TextDocuments(TextDocument);
+
+// Documents are parsed once for the diagnostics and the editor features
+const documents = new DocumentCache();
+const documentSettings = new DocumentSettings();
+const projectConfigWatcher = new ProjectConfigWatcher(connection);
+const diagnosticsProvider = new OpenAPIDiagnosticsProvider(
+  connection,
+  openDocuments,
+  documentSettings,
+  documents
+);
+// Sections are located through the roots of the reference graph, like the validator does
+const extensionLocator = new ExtensionLocator(
+  documents,
+  (file) => diagnosticsProvider.readFile(file),
+  (file) => diagnosticsProvider.getRoots(file)
+);
+const completionProvider = new OpenAPICompletionProvider(
+  documentSettings,
+  documents,
+  extensionLocator
+);
+const hoverProvider = new OpenAPIHoverProvider(documentSettings, documents, extensionLocator);
+const extensionInsertionProvider = new OpenAPIExtensionInsertionProvider(
+  (file) => diagnosticsProvider.readFile(file),
+  documents
+);
+const codeActionProvider = new OpenAPICodeActionProvider(
+  (uri) => diagnosticsProvider.getDiagnostics(uri),
+  documents
+);
+
+let settings = defaultSettings;
+let folders: string[] = [];
+// Clients without the `workspace/configuration` request push their settings instead
+let pullsConfiguration = false;
+let watchesFiles = false;
+let hasWorkspaceFolders = false;
+// Plugins and JavaScript presets of the project configs run once the workspace is trusted
+let isTrusted = false;
+let fileWatchers: Disposable | undefined;
+
+connection.onInitialize((params) => {
+  const capabilities = params.capabilities;
+  pullsConfiguration = !!capabilities.workspace?.configuration;
+  watchesFiles = !!capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+  hasWorkspaceFolders = !!capabilities.workspace?.workspaceFolders;
+  isTrusted =
+    (params.initializationOptions as InitializationOptions | undefined)?.isTrusted ?? false;
+  folders = (params.workspaceFolders ?? (params.rootUri ? [{ uri: params.rootUri }] : []))
+    .map((folder) => toFile(folder.uri))
+    .filter((folder): folder is string => folder !== undefined);
+
+  return {
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      completionProvider: { triggerCharacters: ['x', '-', '"'] },
+      hoverProvider: true,
+      codeActionProvider: {
+        codeActionKinds: OpenAPICodeActionProvider.providedCodeActionKinds,
+      },
+      workspace: { workspaceFolders: { supported: true, changeNotifications: true } },
+    },
+  };
+});
+
+connection.onInitialized(async () => {
+  if (pullsConfiguration) {
+    connection.client.register(DidChangeConfigurationNotification.type, undefined);
+  }
+  if (hasWorkspaceFolders) {
+    connection.workspace.onDidChangeWorkspaceFolders((event) => {
+      const removed = event.removed.map((folder) => toFile(folder.uri));
+      folders = [
+        ...folders.filter((folder) => !removed.includes(folder)),
+        ...event.added.flatMap((folder) => toFile(folder.uri) ?? []),
+      ];
+      loadProjectConfigs();
+      if (settings.enableLinting) {
+        diagnosticsProvider.initialize(folders);
+      }
+    });
+  }
+
+  settings = await loadSettings();
+  loadProjectConfigs();
+  applySettings();
+  if (settings.enableLinting) {
+    // Fragments are linted once the workspace is indexed
+    diagnosticsProvider.initialize(folders);
+  }
+});
+
+connection.onDidChangeConfiguration(async (change) => {
+  settings = pullsConfiguration
+    ? await loadSettings()
+    : { ...defaultSettings, ...change.settings?.cOAS };
+  applySettings();
+});
+
+async function loadSettings(): Promise<Settings> {
+  if (!pullsConfiguration) {
+    return settings;
+  }
+  return { ...defaultSettings, ...(await connection.workspace.getConfiguration('cOAS')) };
+}
+
+function applySettings(): void {
+  const { customExtensions, rules, strict } = settings;
+  documentSettings.updateSettings(customExtensions, { rules, strict });
+  diagnosticsProvider.setValidationDelay(settings.validationDelay);
+  if (settings.enableLinting) {
+    diagnosticsProvider.revalidate();
+  } else {
+    diagnosticsProvider.clear();
+  }
+}
+
+// A project config file takes precedence over the settings for the files of its folder
+function loadProjectConfigs(): void {
+  documentSettings.setProjectConfigs(projectConfigWatcher.load(folders, isTrusted));
+  if (settings.enableLinting) {
+    diagnosticsProvider.revalidate();
+  }
+  registerFileWatchers().catch((error) =>
+    connection.console.error(`Failed to watch the workspace files: ${error}`)
+  );
+}
+
+// Keeps the reference graph and the project configs current for files changed outside of the
+// editor, presets can live anywhere, e.g. in node_modules, so each one gets its own watcher
+async function registerFileWatchers(): Promise<void> {
+  if (!watchesFiles) {
+    return;
+  }
+  fileWatchers?.dispose();
+  fileWatchers = await connection.client.register(DidChangeWatchedFilesNotification.type, {
+    watchers: [
+      { globPattern: SPEC_FILES_GLOB },
+      { globPattern: `**/{${PROJECT_CONFIG_FILES.join(',')}}` },
+      ...projectConfigWatcher.getPresets().map((file) => ({
+        globPattern: { baseUri: toUri(path.dirname(file)), pattern: path.basename(file) },
+      })),
+    ],
+  });
+}
+
+connection.onNotification(WorkspaceTrustedNotification, () => {
+  isTrusted = true;
+  loadProjectConfigs();
+});
+
+connection.onDidChangeWatchedFiles(({ changes }) => {
+  const files = changes.flatMap((change) => {
+    const file = toFile(change.uri);
+    return file === undefined ? [] : [{ file, type: change.type }];
+  });
+  if (files.some(({ file }) => projectConfigWatcher.isConfigFile(file))) {
+    loadProjectConfigs();
+  }
+  if (!settings.enableLinting) {
+    return;
+  }
+  for (const { file, type } of files) {
+    if (type === FileChangeType.Deleted) {
+      diagnosticsProvider.onFileDeleted(file);
+    } else {
+      diagnosticsProvider.onFileChanged(file);
+    }
+  }
+});
+
+// Validate documents on open and save, and once changes pause while typing
+openDocuments.onDidOpen(({ document }) => {
+  if (settings.enableLinting) {
+    diagnosticsProvider.validateDocument(document);
+  }
+});
+openDocuments.onDidChangeContent(({ document }) => {
+  if (settings.enableLinting) {
+    diagnosticsProvider.scheduleValidation(document);
+  }
+});
+openDocuments.onDidSave(({ document }) => {
+  if (settings.enableLinting) {
+    diagnosticsProvider.validateDocument(document);
+  }
+});
+openDocuments.onDidClose(({ document }) => diagnosticsProvider.closeDocument(document.uri));
+
+connection.onCompletion(({ textDocument, position }) => {
+  const document = openDocuments.get(textDocument.uri);
+  return document && settings.enableAutocompletion
+    ? completionProvider.provideCompletionItems(document, position)
+    : [];
+});
+
+connection.onHover(({ textDocument, position }) => {
+  const document = openDocuments.get(textDocument.uri);
+  return document ? hoverProvider.provideHover(document, position) : null;
+});
+
+connection.onCodeAction(({ textDocument, context }) => {
+  const document = openDocuments.get(textDocument.uri);
+  return document && settings.enableLinting
+    ? codeActionProvider.provideCodeActions(document, context)
+    : [];
+});
+
+connection.onRequest(ValidateDocumentRequest, async ({ uri }: ValidateDocumentParams) => {
+  const document = openDocuments.get(uri);
+  if (document) {
+    await diagnosticsProvider.validateDocument(document);
+  }
+});
+
+connection.onRequest(
+  ValidateWorkspaceRequest,
+  (params: ValidateWorkspaceParams, token): Promise<ValidateWorkspaceResult> =>
+    diagnosticsProvider.validateWorkspace(
+      folders,
+      settings.include,
+      settings.exclude,
+      connection.window.attachWorkDoneProgress(params.workDoneToken),
+      token
+    )
+);
+
+connection.onRequest(
+  ExtensionsRequest,
+  ({ uri }: ExtensionsParams): ExtensionsResult => documentSettings.getExtensions(uri)
+);
+
+connection.onRequest(
+  ExtensionInsertionsRequest,
+  ({ uri, extension }: ExtensionInsertionsParams): ExtensionInsertionsResult => {
+    const document = openDocuments.get(uri);
+    return document ? extensionInsertionProvider.provideInsertions(document, extension) : null;
+  }
+);
+
+openDocuments.listen(connection);
+connection.listen();
@@ -0,0 +1,29 @@
+import { Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * A line of a document, shaped like the editor's `TextLine`.
+ */
+export type TextLine = {
+  lineNumber: number;
+  text: string;
+  range: Range;
+  rangeIncludingLineBreak: Range;
+  firstNonWhitespaceCharacterIndex: number;
+};
+
+export function lineAt(document: TextDocument, line: number): TextLine {
+  const next = { line: line + 1, character: 0 };
+  const text = document.getText({ start: { line, character: 0 }, end: next }).replace(/\r?\n$/, '');
+  const end = { line, character: text.length };
+  return {
+    lineNumber: line,
+    text,
+    range: { start: { line, character: 0 }, end },
+    rangeIncludingLineBreak: {
+      start: { line, character: 0 },
+      end: line + 1 < document.lineCount ? next : end,
+    },
+    firstNonWhitespaceCharacterIndex: text.length - text.trimStart().length,
+  };
+}
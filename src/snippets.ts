@@ -0,0 +1,129 @@
+import { CustomExtension, CustomExtensionProperty } from './types';
+import { isPropertyRequired } from './validator/requirement';
+import { DocumentFormat } from './validator/sourceMap';
+
+/**
+ * Snippet inserting `extension` with a value of its declared shape: a placeholder, or a choice
+ * of its allowed values, for scalars, and the required properties of objects, recursively.
+ */
+export function createSnippet(extension: CustomExtension, format: DocumentFormat = 'yaml'): string {
+  const tabStops = { next: 1 };
+  if (format === 'json') {
+    return `"${extension.name}": ${createJsonValue(extension, tabStops)}`;
+  }
+
+  const value = createYamlValue(extension, tabStops);
+  return value.startsWith('\n') ? `${extension.name}:${value}` : `${extension.name}: ${value}`;
+}
+
+// Numbers the placeholders of a snippet in the order they are inserted
+type TabStops = { next: number };
+
+function createScalar(property: CustomExtensionProperty, tabStops: TabStops): string {
+  switch (property.type) {
+    case 'string':
+      if (property.enum?.length) {
+        return `"${createChoice(property.enum, tabStops)}"`;
+      }
+      return `"\${${tabStops.next++}:value}"`;
+    case 'number':
+      if (property.enum?.length) {
+        return createChoice(property.enum, tabStops);
+      }
+      return `\${${tabStops.next++}:${property.minimum ?? 0}}`;
+    case 'boolean':
+      return createChoice([true, false], tabStops);
+    default:
+      return '';
+  }
+}
+
+// The properties an object value must have, the placeholder ones when none are declared
+function requiredEntries(
+  property: CustomExtensionProperty & { type: 'object' }
+): [string, CustomExtensionProperty][] | null {
+  if (!property.properties) {
+    return null;
+  }
+  return Object.entries(property.properties).filter(([key, nested]) =>
+    isPropertyRequired(property, key, nested, {})
+  );
+}
+
+// Block values start on their own line, indented below their key
+function createYamlValue(property: CustomExtensionProperty, tabStops: TabStops): string {
+  const indent = (text: string) => text.split('\n').join('\n  ');
+
+  if (property.type === 'object') {
+    const entries = requiredEntries(property);
+    if (!entries) {
+      return `\n  \${${tabStops.next++}:key}: \${${tabStops.next++}:value}`;
+    }
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return entries
+      .map(([key, nested]) => {
+        const value = createYamlValue(nested, tabStops);
+        return `\n  ${key}:${value.startsWith('\n') ? indent(value) : ` ${value}`}`;
+      })
+      .join('');
+  }
+
+  if (property.type === 'array') {
+    if (!property.items) {
+      return `\n  - \${${tabStops.next++}:item}`;
+    }
+    const item = createYamlValue(property.items, tabStops);
+    // The first key of an object item follows the dash
+    return `\n  - ${item.startsWith('\n') ? indent(item.slice(3)) : item}`;
+  }
+
+  return createScalar(property, tabStops);
+}
+
+function createJsonValue(property: CustomExtensionProperty, tabStops: TabStops): string {
+  const indent = (text: string) => text.split('\n').join('\n  ');
+
+  if (property.type === 'object') {
+    const entries = requiredEntries(property);
+    if (!entries) {
+      return `{\n  "\${${tabStops.next++}:key}": "\${${tabStops.next++}:value}"\n}`;
+    }
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const members = entries.map(
+      ([key, nested]) => `"${key}": ${indent(createJsonValue(nested, tabStops))}`
+    );
+    return `{\n  ${members.join(',\n  ')}\n}`;
+  }
+
+  if (property.type === 'array') {
+    const item = property.items
+      ? indent(createJsonValue(property.items, tabStops))
+      : `"\${${tabStops.next++}:item}"`;
+    return `[\n  ${item}\n]`;
+  }
+
+  return createScalar(property, tabStops);
+}
+
+function createChoice(values: (string | number | boolean)[], tabStops: TabStops): string {
+  // Choice elements must escape the characters that delimit them
+  const choices = values.map((value) => String(value).replace(/[\\,|]/g, '\\$&'));
+  return `\${${tabStops.next++}|${choices.join(',')}|}`;
+}
+
+/**
+ * The text a snippet inserts when every placeholder keeps its default, the first choice for
+ * choices.
+ */
+export function expandSnippet(snippet: string): string {
+  return snippet
+    .replace(/\$\{\d+\|((?:\\.|[^\\,|])*)(?:,(?:\\.|[^\\|])*)?\|\}/g, (_, choice: string) =>
+      choice.replace(/\\(.)/g, '$1')
+    )
+    .replace(/\$\{\d+:([^}]*)\}/g, '$1')
+    .replace(/\$\d+/g, '');
+}
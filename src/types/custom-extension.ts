@@ -1,4 +1,4 @@
-import { ExtensionLocation } from '../validator/enums';
+import { ExtensionLocation, Severity } from '../validator/enums';
 
 // Base fields shared by all custom extension property types
 type BaseProperty = {
@@ -6,25 +6,40 @@ type BaseProperty = {
   required?: boolean | string[];
 };
 
-// String, Number, Boolean (scalars)
-type StringProperty = BaseProperty & { type: 'string' };
-type NumberProperty = BaseProperty & { type: 'number' };
+// Formats a string value can be asserted against
+export type StringFormat = 'uri' | 'email' | 'date-time' | 'semver';
+
+// String, Number, Boolean (scalars) with their value constraints
+type StringProperty = BaseProperty & {
+  type: 'string';
+  enum?: string[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  format?: StringFormat;
+};
+type NumberProperty = BaseProperty & {
+  type: 'number';
+  enum?: number[];
+  minimum?: number;
+  maximum?: number;
+};
 type BooleanProperty = BaseProperty & { type: 'boolean' };
 
-// Object → only objects can have properties
+// Object → only objects can have properties, keyed by property name
 type ObjectProperty = BaseProperty & {
   type: 'object';
-  properties?: CustomExtensionProperty;
+  properties?: { [key: string]: CustomExtensionProperty };
 };
 
-// Array → only arrays can have items
+// Array → only arrays can have items, every item must match the declared shape
 type ArrayProperty = BaseProperty & {
   type: 'array';
-  items?: CustomExtension[];
+  items?: CustomExtensionProperty;
 };
 
 // Union of property types
-type CustomExtensionProperty =
+export type CustomExtensionProperty =
   | StringProperty
   | NumberProperty
   | BooleanProperty
@@ -35,4 +50,6 @@ type CustomExtensionProperty =
 export type CustomExtension = {
   in: ExtensionLocation;
   name: string;
+  // Severity of the extension's findings, `off` disables it (default: error)
+  severity?: Severity;
 } & CustomExtensionProperty;
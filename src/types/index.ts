@@ -1,3 +1,7 @@
 export * from './custom-extension';
 export * from './validation';
 export * from './openapi-specification';
+export * from './swagger-specification';
+export * from './project-config';
+export * from './rule';
+export * from './spectral';
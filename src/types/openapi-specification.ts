@@ -1,22 +1,33 @@
+// Objects tagged with `@patternProperties` reject unknown fields in the generated schemas and
+// accept specification extensions, the `x-` keys, besides them
+
 type Contact = {
   name?: string;
   url?: string;
-  email: string;
+  email?: string;
 };
 
-type License = {
+type License30 = {
   name: string;
   url?: string;
+};
+
+type License31 = License30 & {
   identifier?: string;
 };
 
-type Info = {
+/** @patternProperties {"^x-": {}} */
+type Info<L> = {
   title: string;
   version: string;
   description?: string;
   termsOfService?: string;
   contact?: Contact;
-  license?: License;
+  license?: L;
+};
+
+/** @patternProperties {"^x-": {}} */
+type Info31 = Info<License31> & {
   summary?: string;
 };
 
@@ -26,6 +37,7 @@ type ServerVariable = {
   enum?: string[];
 };
 
+/** @patternProperties {"^x-": {}} */
 type Server = {
   url: string;
   description?: string;
@@ -57,18 +69,17 @@ type ParameterStyle =
   | 'pipeDelimited'
   | 'deepObject';
 
-type SchemaObject = {
-  // JSON Schema properties
-  type?: 'null' | 'boolean' | 'object' | 'array' | 'number' | 'string' | 'integer';
+type SchemaType = 'boolean' | 'object' | 'array' | 'number' | 'string' | 'integer';
+
+// Non-recursive JSON Schema keywords shared by OpenAPI 3.0 and 3.1 schema objects
+type SchemaKeywords = {
   format?: string;
   title?: string;
   description?: string;
   default?: any;
   multipleOf?: number;
   maximum?: number;
-  exclusiveMaximum?: number | boolean;
   minimum?: number;
-  exclusiveMinimum?: number | boolean;
   maxLength?: number;
   minLength?: number;
   pattern?: string;
@@ -79,33 +90,63 @@ type SchemaObject = {
   minProperties?: number;
   required?: string[];
   enum?: any[];
-  const?: any;
-
-  // Schema composition
-  allOf?: (SchemaObject | Reference)[];
-  oneOf?: (SchemaObject | Reference)[];
-  anyOf?: (SchemaObject | Reference)[];
-  not?: SchemaObject | Reference;
-
-  // Object properties
-  properties?: { [key: string]: SchemaObject | Reference };
-  additionalProperties?: boolean | SchemaObject | Reference;
-  patternProperties?: { [key: string]: SchemaObject | Reference };
-
-  // Array properties
-  items?: SchemaObject | Reference;
-  prefixItems?: (SchemaObject | Reference)[];
-  contains?: SchemaObject | Reference;
 
   // OpenAPI specific
   discriminator?: Discriminator;
   xml?: XML;
   externalDocs?: ExternalDocumentation;
   example?: any;
-  examples?: { [key: string]: any };
   deprecated?: boolean;
   readOnly?: boolean;
   writeOnly?: boolean;
+  // for custom extensions
+  [key: string]: any;
+};
+
+// OpenAPI 3.0 schemas are an extended subset of JSON Schema draft 5
+export type SchemaObject30 = SchemaKeywords & {
+  type?: SchemaType;
+  nullable?: boolean;
+  exclusiveMaximum?: boolean;
+  exclusiveMinimum?: boolean;
+
+  // Schema composition
+  allOf?: (SchemaObject30 | Reference)[];
+  oneOf?: (SchemaObject30 | Reference)[];
+  anyOf?: (SchemaObject30 | Reference)[];
+  not?: SchemaObject30 | Reference;
+
+  // Object properties
+  properties?: { [key: string]: SchemaObject30 | Reference };
+  additionalProperties?: boolean | SchemaObject30 | Reference;
+
+  // Array properties
+  items?: SchemaObject30 | Reference;
+};
+
+// OpenAPI 3.1 schemas are JSON Schema 2020-12
+export type SchemaObject31 = SchemaKeywords & {
+  type?: SchemaType | 'null' | (SchemaType | 'null')[];
+  exclusiveMaximum?: number;
+  exclusiveMinimum?: number;
+  const?: any;
+  examples?: any[];
+
+  // Schema composition
+  allOf?: (SchemaObject31 | Reference)[];
+  oneOf?: (SchemaObject31 | Reference)[];
+  anyOf?: (SchemaObject31 | Reference)[];
+  not?: SchemaObject31 | Reference;
+
+  // Object properties
+  properties?: { [key: string]: SchemaObject31 | Reference };
+  additionalProperties?: boolean | SchemaObject31 | Reference;
+  patternProperties?: { [key: string]: SchemaObject31 | Reference };
+
+  // Array properties
+  items?: SchemaObject31 | Reference;
+  prefixItems?: (SchemaObject31 | Reference)[];
+  contains?: SchemaObject31 | Reference;
 
   // JSON Schema 2020-12
   $schema?: string;
@@ -113,10 +154,8 @@ type SchemaObject = {
   $id?: string;
   $anchor?: string;
   $ref?: string;
-  $defs?: { [key: string]: SchemaObject };
+  $defs?: { [key: string]: SchemaObject31 };
   $comment?: string;
-  // for custom extensions
-  [key: string]: any;
 };
 
 type Discriminator = {
@@ -138,7 +177,8 @@ type Reference = {
   description?: string;
 };
 
-export type Parameter = {
+// Objects below are generic over the schema object of the OpenAPI version (`S`)
+export type Parameter<S> = {
   name: string;
   in: ParameterLocation;
   description?: string;
@@ -148,10 +188,10 @@ export type Parameter = {
   style?: ParameterStyle;
   explode?: boolean;
   allowReserved?: boolean;
-  schema?: SchemaObject | Reference;
+  schema?: S | Reference;
   example?: any;
   examples?: { [key: string]: Example | Reference };
-  content?: { [mediaType: string]: MediaType };
+  content?: { [mediaType: string]: MediaType<S> };
   // for custom extensions
   [key: string]: any;
 };
@@ -163,33 +203,35 @@ type Example = {
   externalValue?: string;
 };
 
-type MediaType = {
-  schema?: SchemaObject | Reference;
+type MediaType<S> = {
+  schema?: S | Reference;
   example?: any;
   examples?: { [key: string]: Example | Reference };
-  encoding?: { [key: string]: Encoding };
+  encoding?: { [key: string]: Encoding<S> };
 };
 
-type Encoding = {
+type Encoding<S> = {
   contentType?: string;
-  headers?: { [key: string]: Header | Reference };
+  headers?: { [key: string]: Header<S> | Reference };
   style?: string;
   explode?: boolean;
   allowReserved?: boolean;
 };
 
-type Header = Omit<Parameter, 'name' | 'in'>;
+type Header<S> = Omit<Parameter<S>, 'name' | 'in'>;
 
-export type RequestBody = {
+/** @patternProperties {"^x-": {}} */
+export type RequestBody<S> = {
   description?: string;
-  content: { [mediaType: string]: MediaType };
+  content: { [mediaType: string]: MediaType<S> };
   required?: boolean;
 };
 
-type Response = {
+/** @patternProperties {"^x-": {}} */
+type Response<S> = {
   description: string;
-  headers?: { [key: string]: Header | Reference };
-  content?: { [mediaType: string]: MediaType };
+  headers?: { [key: string]: Header<S> | Reference };
+  content?: { [mediaType: string]: MediaType<S> };
   links?: { [key: string]: Link | Reference };
 };
 
@@ -202,51 +244,53 @@ type Link = {
   server?: Server;
 };
 
-export type Responses = {
-  [statusCode: string]: Response | Reference;
+export type Responses<S> = {
+  [statusCode: string]: Response<S> | Reference;
 };
 
-type Callback = {
-  [expression: string]: PathItem | Reference;
+type Callback<S> = {
+  [expression: string]: PathItem<S> | Reference;
 };
 
 type SecurityRequirement = {
   [securityScheme: string]: string[];
 };
 
-type Operation = {
-  tags: string[];
-  summary: string;
-  description: string;
+/** @patternProperties {"^x-": {}} */
+type Operation<S> = {
+  tags?: string[];
+  summary?: string;
+  description?: string;
   externalDocs?: ExternalDocumentation;
-  operationId: string;
-  parameters?: (Parameter | Reference)[];
-  requestBody?: RequestBody | Reference;
-  responses: Responses;
-  callbacks?: { [key: string]: Callback | Reference };
+  operationId?: string;
+  parameters?: (Parameter<S> | Reference)[];
+  requestBody?: RequestBody<S> | Reference;
+  responses?: Responses<S>;
+  callbacks?: { [key: string]: Callback<S> | Reference };
   deprecated?: boolean;
   security?: SecurityRequirement[];
   servers?: Server[];
 };
 
-type PathItem = {
+/** @patternProperties {"^x-": {}} */
+type PathItem<S> = {
   $ref?: string;
   summary?: string;
   description?: string;
-  get?: Operation;
-  put?: Operation;
-  post?: Operation;
-  delete?: Operation;
-  options?: Operation;
-  head?: Operation;
-  patch?: Operation;
-  trace?: Operation;
+  get?: Operation<S>;
+  put?: Operation<S>;
+  post?: Operation<S>;
+  delete?: Operation<S>;
+  options?: Operation<S>;
+  head?: Operation<S>;
+  patch?: Operation<S>;
+  trace?: Operation<S>;
   servers?: Server[];
-  parameters?: (Parameter | Reference)[];
+  parameters?: (Parameter<S> | Reference)[];
 };
 
-type Paths = {
-  [path: string]: PathItem | Reference;
+type Paths<S> = {
+  [path: string]: PathItem<S> | Reference;
 };
 
 type SecuritySchemeType = 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
@@ -284,32 +328,50 @@ type OAuthFlow = {
   [key: string]: any;
 };
 
-type Components = {
-  securitySchemes: { [key: string]: SecurityScheme | Reference };
-  schemas?: { [key: string]: SchemaObject | Reference };
-  responses?: { [key: string]: Response | Reference };
-  parameters?: { [key: string]: Parameter | Reference };
+type Components<S> = {
+  securitySchemes?: { [key: string]: SecurityScheme | Reference };
+  schemas?: { [key: string]: S | Reference };
+  responses?: { [key: string]: Response<S> | Reference };
+  parameters?: { [key: string]: Parameter<S> | Reference };
   examples?: { [key: string]: Example | Reference };
-  requestBodies?: { [key: string]: RequestBody | Reference };
-  headers?: { [key: string]: Header | Reference };
+  requestBodies?: { [key: string]: RequestBody<S> | Reference };
+  headers?: { [key: string]: Header<S> | Reference };
   links?: { [key: string]: Link | Reference };
-  callbacks?: { [key: string]: Callback | Reference };
-  pathItems?: { [key: string]: PathItem | Reference };
+  callbacks?: { [key: string]: Callback<S> | Reference };
+};
+
+type Components31 = Components<SchemaObject31> & {
+  pathItems?: { [key: string]: PathItem<SchemaObject31> | Reference };
 };
 
 type Webhook = {
-  [name: string]: PathItem | Reference;
+  [name: string]: PathItem<SchemaObject31> | Reference;
+};
+
+export type OpenAPI30Document = {
+  openapi: string;
+  info: Info<License30>;
+  servers?: Server[];
+  tags?: Tag[];
+  components?: Components<SchemaObject30>;
+  paths: Paths<SchemaObject30>;
+  security?: SecurityRequirement[];
+  externalDocs?: ExternalDocumentation;
+  [key: string]: any; // For specification extensions (x-*)
 };
 
-export type OpenAPIDocument = {
+export type OpenAPI31Document = {
   openapi: string;
-  info: Info;
-  servers: Server[];
-  tags: Tag[];
-  components: Components;
-  paths?: Paths;
+  info: Info31;
+  jsonSchemaDialect?: string;
+  servers?: Server[];
+  tags?: Tag[];
+  components?: Components31;
+  paths?: Paths<SchemaObject31>;
   webhooks?: Webhook;
   security?: SecurityRequirement[];
   externalDocs?: ExternalDocumentation;
   [key: string]: any; // For specification extensions (x-*)
 };
+
+export type OpenAPIDocument = OpenAPI30Document | OpenAPI31Document;
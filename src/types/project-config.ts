@@ -0,0 +1,23 @@
+import { CustomExtension } from './custom-extension';
+import { RuleSeverities, StrictMode } from './validation';
+
+// Definitions that apply to the files matching `files`, globs relative to the project config
+export type ConfigOverride = {
+  files: string | string[];
+  customExtensions?: CustomExtension[];
+  rules?: RuleSeverities;
+};
+
+export type ProjectConfigFile = {
+  // Presets applied first: paths relative to the config file or npm package names
+  extends?: string | string[];
+  // Modules exporting additional rules: paths relative to the config file or npm package names
+  plugins?: string[];
+  // Spectral rulesets evaluated with the rules: paths relative to the config file or npm package
+  // names
+  spectral?: string | string[];
+  customExtensions?: CustomExtension[];
+  rules?: RuleSeverities;
+  strict?: StrictMode;
+  overrides?: ConfigOverride[];
+};
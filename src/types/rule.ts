@@ -0,0 +1,47 @@
+import { SpecificationVersion } from '../validator/enums';
+import { RefResolver } from '../validator/refResolver';
+import { SourceMap } from '../validator/sourceMap';
+import { OpenAPIDocument } from './openapi-specification';
+import { SwaggerDocument } from './swagger-specification';
+import { ValidationError } from './validation';
+
+/**
+ * A finding of a rule. `path` leads to the node at fault in `file`, absent for the validated
+ * document, and `part` tells whether its key or its value is highlighted.
+ */
+export type RuleFinding = {
+  message: string;
+  path: (string | number)[];
+  part?: 'key' | 'value';
+  file?: string;
+  related?: { message: string; file?: string; path: (string | number)[] }[];
+};
+
+export type RuleContext = {
+  document: OpenAPIDocument | SwaggerDocument;
+  version: SpecificationVersion;
+  // Locates the nodes of the validated document
+  sourceMap: SourceMap;
+  // Follows `$ref`s, also into the other files of a multi-file specification
+  resolver: RefResolver;
+  report: (finding: RuleFinding) => void;
+};
+
+/**
+ * A semantic check of a document. Its findings are reported with `name` as their rule id, so
+ * that the `rules` setting and suppression comments apply to them.
+ */
+export type Rule = {
+  name: string;
+  // Defaults to error
+  severity?: ValidationError['severity'];
+  check: (context: RuleContext) => void;
+};
+
+/**
+ * What a plugin module listed in the `plugins` of a project config exports, as
+ * `module.exports` or its default export.
+ */
+export type RulePlugin = {
+  rules: Rule[];
+};
@@ -0,0 +1,32 @@
+/**
+ * A Spectral ruleset (`.spectral.yaml`), the subset the linter evaluates: rules applying the
+ * core functions to the nodes matched by JSONPath expressions.
+ */
+export type SpectralRuleset = {
+  // Other rulesets, local files are loaded and `spectral:oas` style built-ins are skipped
+  extends?: string | (string | [string, string])[];
+  rules?: { [name: string]: SpectralRule | SpectralSeverity | boolean };
+};
+
+export type SpectralRule = {
+  description?: string;
+  // Template with the `{{error}}`, `{{description}}`, `{{property}}`, `{{value}}` and `{{path}}`
+  // placeholders
+  message?: string;
+  severity?: SpectralSeverity;
+  // Document formats the rule applies to: `oas2`, `oas3`, `oas3_0` or `oas3_1`
+  formats?: string[];
+  given: string | string[];
+  then: SpectralThen | SpectralThen[];
+  // Whether `given` is matched against the document with its `$ref`s resolved, the default
+  resolved?: boolean;
+};
+
+export type SpectralThen = {
+  // Property of the matched node, or a JSONPath relative to it, `@key` for its keys
+  field?: string;
+  function: string;
+  functionOptions?: { [option: string]: any };
+};
+
+export type SpectralSeverity = 'error' | 'warn' | 'info' | 'hint' | 'off' | 0 | 1 | 2 | 3 | -1;
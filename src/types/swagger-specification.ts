@@ -0,0 +1,236 @@
+// Objects tagged with `@patternProperties` reject unknown fields in the generated schema and
+// accept specification extensions, the `x-` keys, besides them
+
+type Contact = {
+  name?: string;
+  url?: string;
+  email?: string;
+};
+
+type License = {
+  name: string;
+  url?: string;
+};
+
+/** @patternProperties {"^x-": {}} */
+type Info = {
+  title: string;
+  version: string;
+  description?: string;
+  termsOfService?: string;
+  contact?: Contact;
+  license?: License;
+};
+
+type ExternalDocumentation = {
+  description?: string;
+  url: string;
+};
+
+/** @patternProperties {"^x-": {}} */
+type Tag = {
+  name: string;
+  description?: string;
+  externalDocs?: ExternalDocumentation;
+  [key: string]: any; // For specification extensions (x-*)
+};
+
+type Scheme = 'http' | 'https' | 'ws' | 'wss';
+
+type CollectionFormat = 'csv' | 'ssv' | 'tsv' | 'pipes' | 'multi';
+
+type PrimitiveType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'file';
+
+// Validation keywords shared by non-body parameters, headers and their items
+type PrimitiveConstraints = {
+  format?: string;
+  default?: any;
+  maximum?: number;
+  exclusiveMaximum?: boolean;
+  minimum?: number;
+  exclusiveMinimum?: boolean;
+  maxLength?: number;
+  minLength?: number;
+  pattern?: string;
+  maxItems?: number;
+  minItems?: number;
+  uniqueItems?: boolean;
+  enum?: any[];
+  multipleOf?: number;
+};
+
+/** @patternProperties {"^x-": {}} */
+type Items = PrimitiveConstraints & {
+  type: Exclude<PrimitiveType, 'file'>;
+  items?: Items;
+  collectionFormat?: Exclude<CollectionFormat, 'multi'>;
+};
+
+type SchemaObject = {
+  // JSON Schema (draft 4 subset) properties
+  type?: 'null' | 'boolean' | 'object' | 'array' | 'number' | 'string' | 'integer' | 'file';
+  format?: string;
+  title?: string;
+  description?: string;
+  default?: any;
+  multipleOf?: number;
+  maximum?: number;
+  exclusiveMaximum?: boolean;
+  minimum?: number;
+  exclusiveMinimum?: boolean;
+  maxLength?: number;
+  minLength?: number;
+  pattern?: string;
+  maxItems?: number;
+  minItems?: number;
+  uniqueItems?: boolean;
+  maxProperties?: number;
+  minProperties?: number;
+  required?: string[];
+  enum?: any[];
+
+  // Schema composition
+  allOf?: (SchemaObject | Reference)[];
+
+  // Object properties
+  properties?: { [key: string]: SchemaObject | Reference };
+  additionalProperties?: boolean | SchemaObject | Reference;
+
+  // Array properties
+  items?: SchemaObject | Reference;
+
+  // Swagger specific
+  discriminator?: string;
+  readOnly?: boolean;
+  xml?: XML;
+  externalDocs?: ExternalDocumentation;
+  example?: any;
+  // for custom extensions
+  [key: string]: any;
+};
+
+type XML = {
+  name?: string;
+  namespace?: string;
+  prefix?: string;
+  attribute?: boolean;
+  wrapped?: boolean;
+};
+
+type Reference = {
+  $ref: string;
+};
+
+export type BodyParameter = {
+  name: string;
+  in: 'body';
+  description?: string;
+  required?: boolean;
+  schema: SchemaObject | Reference;
+  // for custom extensions
+  [key: string]: any;
+};
+
+type NonBodyParameter = PrimitiveConstraints & {
+  name: string;
+  in: 'query' | 'header' | 'path' | 'formData';
+  description?: string;
+  required?: boolean;
+  type: PrimitiveType;
+  allowEmptyValue?: boolean;
+  items?: Items;
+  collectionFormat?: CollectionFormat;
+  // for custom extensions
+  [key: string]: any;
+};
+
+export type SwaggerParameter = BodyParameter | NonBodyParameter;
+
+type Header = PrimitiveConstraints & {
+  description?: string;
+  type: Exclude<PrimitiveType, 'file'>;
+  items?: Items;
+  collectionFormat?: Exclude<CollectionFormat, 'multi'>;
+};
+
+/** @patternProperties {"^x-": {}} */
+type Response = {
+  description: string;
+  schema?: SchemaObject | Reference;
+  headers?: { [name: string]: Header };
+  examples?: { [mimeType: string]: any };
+};
+
+type Responses = {
+  [statusCode: string]: Response | Reference;
+};
+
+type SecurityRequirement = {
+  [securityScheme: string]: string[];
+};
+
+/** @patternProperties {"^x-": {}} */
+type Operation = {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  externalDocs?: ExternalDocumentation;
+  operationId?: string;
+  consumes?: string[];
+  produces?: string[];
+  parameters?: (SwaggerParameter | Reference)[];
+  responses: Responses;
+  schemes?: Scheme[];
+  deprecated?: boolean;
+  security?: SecurityRequirement[];
+};
+
+/** @patternProperties {"^x-": {}} */
+type PathItem = {
+  $ref?: string;
+  get?: Operation;
+  put?: Operation;
+  post?: Operation;
+  delete?: Operation;
+  options?: Operation;
+  head?: Operation;
+  patch?: Operation;
+  parameters?: (SwaggerParameter | Reference)[];
+};
+
+type Paths = {
+  [path: string]: PathItem;
+};
+
+/** @patternProperties {"^x-": {}} */
+type SecurityScheme = {
+  type: 'basic' | 'apiKey' | 'oauth2';
+  description?: string;
+  // For apiKey
+  name?: string;
+  in?: 'query' | 'header';
+  // For oauth2
+  flow?: 'implicit' | 'password' | 'application' | 'accessCode';
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  scopes?: { [scope: string]: string };
+};
+
+export type SwaggerDocument = {
+  swagger: '2.0';
+  info: Info;
+  host?: string;
+  basePath?: string;
+  schemes?: Scheme[];
+  consumes?: string[];
+  produces?: string[];
+  paths: Paths;
+  definitions?: { [name: string]: SchemaObject };
+  parameters?: { [name: string]: SwaggerParameter };
+  responses?: { [name: string]: Response };
+  securityDefinitions?: { [name: string]: SecurityScheme };
+  security?: SecurityRequirement[];
+  tags?: Tag[];
+  externalDocs?: ExternalDocumentation;
+  [key: string]: any; // For specification extensions (x-*)
+};
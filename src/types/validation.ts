@@ -1,24 +1,53 @@
-import * as vscode from 'vscode';
+import { Severity } from '../validator/enums';
+import { CustomExtension } from './custom-extension';
 
 export type ValidationResult = {
   isValid: boolean;
+  // Findings of severity error, the others are warnings
   errors: ValidationError[];
-  warnings: ValidationWarning[];
+  warnings: ValidationError[];
 };
 
 export type ValidationError = {
   message: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
   extensionName: string;
-  severity: 'error' | 'warning';
-  range?: vscode.Range;
+  severity: Exclude<Severity, 'off'>;
+  // File the finding belongs to when it is not the validated document
+  file?: string;
+  related?: RelatedInformation[];
+  // How an editor quick fix can repair the finding
+  fix?: FindingFix;
 };
 
-type ValidationWarning = {
+/**
+ * A repair of a finding, `path` leads to the node to change in the file of the finding: the
+ * section missing an extension, or a value to replace by its converted form.
+ */
+export type FindingFix =
+  | { kind: 'add-extension'; path: (string | number)[]; extension: CustomExtension }
+  | { kind: 'replace-value'; path: (string | number)[]; value: any };
+
+export type RelatedInformation = {
   message: string;
+  file?: string;
   line?: number;
   column?: number;
-  extensionName?: string;
-  range?: vscode.Range;
+  endLine?: number;
+  endColumn?: number;
+};
+
+/**
+ * Reports `x-` keys that are not configured, or used outside the `in` locations they are
+ * configured for. Extensions matching `allowedExtensions`, globs such as
+ * `x-amazon-apigateway-*`, are accepted anywhere.
+ */
+export type StrictMode = boolean | { allowedExtensions?: string[] };
+
+// Severity by rule: built-in rule ids (e.g. `schema-validation`) and extension names
+export type RuleSeverities = {
+  [rule: string]: Severity;
 };
@@ -0,0 +1,78 @@
+import { fullFormats } from 'ajv-formats/dist/formats';
+import { CustomExtensionProperty, StringFormat } from '../types';
+
+// https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+function matchesFormat(format: StringFormat, value: string): boolean {
+  if (format === 'semver') {
+    return SEMVER_PATTERN.test(value);
+  }
+
+  const definition = fullFormats[format];
+  if (definition instanceof RegExp) {
+    return definition.test(value);
+  }
+  if (typeof definition === 'function') {
+    return definition(value) as boolean;
+  }
+  if (typeof definition === 'object' && 'validate' in definition) {
+    const validate = definition.validate;
+    if (validate instanceof RegExp) {
+      return validate.test(value);
+    }
+    if (typeof validate === 'function') {
+      return Boolean(validate(value as never));
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks a value that already has the declared type against the value constraints of its
+ * definition and returns one message per violated constraint.
+ */
+export function checkConstraints(value: any, property: CustomExtensionProperty): string[] {
+  const violations: string[] = [];
+
+  if (property.type === 'string') {
+    if (property.enum && !property.enum.includes(value)) {
+      violations.push(`must be one of ${property.enum.join(', ')}, got "${value}"`);
+    }
+    if (property.minLength !== undefined && value.length < property.minLength) {
+      violations.push(`must be at least ${property.minLength} characters long`);
+    }
+    if (property.maxLength !== undefined && value.length > property.maxLength) {
+      violations.push(`must be at most ${property.maxLength} characters long`);
+    }
+    if (property.pattern !== undefined) {
+      let pattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(property.pattern, 'u');
+      } catch {
+        violations.push(`has an invalid pattern "${property.pattern}" in its definition`);
+      }
+      if (pattern && !pattern.test(value)) {
+        violations.push(`must match pattern ${property.pattern}`);
+      }
+    }
+    if (property.format !== undefined && !matchesFormat(property.format, value)) {
+      violations.push(`must be a valid ${property.format}, got "${value}"`);
+    }
+  }
+
+  if (property.type === 'number') {
+    if (property.enum && !property.enum.includes(value)) {
+      violations.push(`must be one of ${property.enum.join(', ')}, got ${value}`);
+    }
+    if (property.minimum !== undefined && value < property.minimum) {
+      violations.push(`must be >= ${property.minimum}, got ${value}`);
+    }
+    if (property.maximum !== undefined && value > property.maximum) {
+      violations.push(`must be <= ${property.maximum}, got ${value}`);
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,28 @@
+import { DocumentFormat, ParsedDocument, detectFormat, parseDocument } from './sourceMap';
+
+/**
+ * Parsed documents by content, shared by the validator, the reference resolver and the editor
+ * providers so that a text is parsed once however many of them read it. Files a change did not
+ * touch are not parsed again on the next validation. Entries are read-only, the least recently
+ * used ones are dropped beyond `maxEntries`.
+ */
+export class DocumentCache {
+  private entries = new Map<string, ParsedDocument>();
+
+  constructor(private maxEntries = 50) {}
+
+  public get(content: string, format: DocumentFormat = detectFormat(content)): ParsedDocument {
+    let parsed = this.entries.get(content);
+    if (parsed?.format !== format) {
+      parsed = parseDocument(content, format);
+    }
+
+    // Map iteration follows insertion order, re-inserting keeps the oldest entry first
+    this.entries.delete(content);
+    this.entries.set(content, parsed);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return parsed;
+  }
+}
@@ -1,9 +1,49 @@
 export const ExtensionLocationEnum = {
   Root: 'root',
+  Info: 'info',
   Servers: 'servers',
   Tags: 'tags',
+  Paths: 'paths',
+  Operations: 'operations',
   Parameters: 'parameters',
   RequestBody: 'requestBody',
+  Responses: 'responses',
+  Callbacks: 'callbacks',
+  Schemas: 'schemas',
+  SecuritySchemes: 'securitySchemes',
+  Webhooks: 'webhooks',
 } as const;
 
 export type ExtensionLocation = (typeof ExtensionLocationEnum)[keyof typeof ExtensionLocationEnum];
+
+export const HttpMethodEnum = {
+  Get: 'get',
+  Put: 'put',
+  Post: 'post',
+  Delete: 'delete',
+  Options: 'options',
+  Head: 'head',
+  Patch: 'patch',
+  Trace: 'trace',
+} as const;
+
+export type HttpMethod = (typeof HttpMethodEnum)[keyof typeof HttpMethodEnum];
+
+export const SpecificationVersionEnum = {
+  Swagger2: 'swagger2',
+  OpenAPI30: 'openapi3.0',
+  OpenAPI31: 'openapi3.1',
+} as const;
+
+export type SpecificationVersion =
+  (typeof SpecificationVersionEnum)[keyof typeof SpecificationVersionEnum];
+
+export const SeverityEnum = {
+  Error: 'error',
+  Warning: 'warning',
+  Info: 'info',
+  Hint: 'hint',
+  Off: 'off',
+} as const;
+
+export type Severity = (typeof SeverityEnum)[keyof typeof SeverityEnum];
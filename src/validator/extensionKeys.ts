@@ -0,0 +1,84 @@
+import { holdsData } from './nodes';
+
+/**
+ * An `x-` key of the document with the path of the mapping holding it.
+ */
+export type ExtensionKey = {
+  name: string;
+  path: (string | number)[];
+};
+
+// Mappings whose keys are names (properties, headers, ...) that may start with `x-` too
+const NAME_MAPS = [
+  'properties',
+  'patternProperties',
+  '$defs',
+  'headers',
+  'scopes',
+  'mapping',
+  'variables',
+  'encoding',
+];
+
+/**
+ * Finds the extension keys of a parsed document. The values of extensions are free-form and
+ * not searched, neither are examples and defaults.
+ */
+export function findExtensionKeys(document: any): ExtensionKey[] {
+  const keys: ExtensionKey[] = [];
+  const visit = (node: any, path: (string | number)[]) => {
+    if (typeof node !== 'object' || node === null) {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, [...path, index]));
+      return;
+    }
+
+    const parent = path[path.length - 1];
+    const isNameMap =
+      (typeof parent === 'string' && NAME_MAPS.includes(parent)) ||
+      // Entries of components, and of their Swagger 2.0 counterparts at the root
+      (path.length === 2 && path[0] === 'components') ||
+      (path.length === 1 && ['definitions', 'parameters', 'responses'].includes(String(parent)));
+    for (const [key, value] of Object.entries(node)) {
+      if (key.startsWith('x-') && !isNameMap) {
+        keys.push({ name: key, path });
+      } else if (isNameMap || !holdsData(key, value)) {
+        visit(value, [...path, key]);
+      }
+    }
+  };
+  visit(document, []);
+  return keys;
+}
+
+/**
+ * The candidate closest to `name` when it is close enough to be a typo, undefined otherwise.
+ */
+export function suggestName(name: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(1, Math.floor(name.length / 4));
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+  return best?.candidate;
+}
+
+// Levenshtein distance, keeping a single row of the matrix
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
@@ -0,0 +1,472 @@
+import { OpenAPIDocument, SwaggerDocument } from '../types';
+import {
+  ExtensionLocation,
+  ExtensionLocationEnum,
+  HttpMethod,
+  HttpMethodEnum,
+  SpecificationVersionEnum,
+} from './enums';
+import { isObject } from './nodes';
+import { RefResolver, SourceSite, isReference, siteKey } from './refResolver';
+import { RequirementContext } from './requirement';
+import { detectSpecificationVersion } from './specification';
+
+/**
+ * A node of the document where an extension of a given location may appear.
+ * `path` leads from the root of `file` (absent for the validated document) to the node,
+ * `label` names its logical location in messages (e.g. "/users.post requestBody") and
+ * `references` lists the `$ref` sites followed to reach it.
+ */
+export type LocationTarget = {
+  node: any;
+  file?: string;
+  path: (string | number)[];
+  label: string;
+  requirement: RequirementContext;
+  references: SourceSite[];
+};
+
+type Site = Omit<LocationTarget, 'label' | 'requirement'>;
+
+const httpMethods: HttpMethod[] = Object.values(HttpMethodEnum);
+const requestBodyMethods: HttpMethod[] = [
+  HttpMethodEnum.Post,
+  HttpMethodEnum.Put,
+  HttpMethodEnum.Patch,
+];
+const schemaCompositions = ['allOf', 'anyOf', 'oneOf'];
+
+// The location of the `$ref` targets under each key of `components`, schemas aside
+const componentLocations: Record<string, ExtensionLocation> = {
+  parameters: ExtensionLocationEnum.Parameters,
+  requestBodies: ExtensionLocationEnum.RequestBody,
+  responses: ExtensionLocationEnum.Responses,
+  callbacks: ExtensionLocationEnum.Callbacks,
+  securitySchemes: ExtensionLocationEnum.SecuritySchemes,
+  pathItems: ExtensionLocationEnum.Paths,
+};
+
+/**
+ * Walks the document section by section, following references when a resolver is given.
+ */
+class LocationWalker {
+  constructor(private resolver?: RefResolver) {}
+
+  public child(site: Site, key: string | number, label: string): Site | null {
+    const node = site.node?.[key];
+    if (typeof node !== 'object' || node === null) {
+      return null;
+    }
+
+    const path = [...site.path, key];
+    if (!this.resolver || !isReference(node)) {
+      return { node, file: site.file, path, references: site.references };
+    }
+
+    const resolved = this.resolver.follow(node, site.file, path, label);
+    if (!resolved || !isObject(resolved.node)) {
+      return null;
+    }
+    return { ...resolved, references: [...site.references, ...resolved.references] };
+  }
+
+  // Maps and lists holding the sections are never references themselves
+  private container(site: Site, key: string): Site | null {
+    const node = site.node?.[key];
+    if (typeof node !== 'object' || node === null) {
+      return null;
+    }
+    return { node, file: site.file, path: [...site.path, key], references: site.references };
+  }
+
+  public entries(
+    site: Site | null,
+    key: string,
+    label: (name: string) => string
+  ): [string, Site][] {
+    const map = site && this.container(site, key);
+    if (!map || !isObject(map.node)) {
+      return [];
+    }
+    return Object.keys(map.node)
+      .map((name): [string, Site | null] => [name, this.child(map, name, label(name))])
+      .filter((entry): entry is [string, Site] => entry[1] !== null && isObject(entry[1].node));
+  }
+
+  public items(site: Site | null, key: string, label: (index: number) => string): [number, Site][] {
+    const list = site && this.container(site, key);
+    if (!list || !Array.isArray(list.node)) {
+      return [];
+    }
+    return list.node
+      .map((_: any, index: number): [number, Site | null] => [
+        index,
+        this.child(list, index, label(index)),
+      ])
+      .filter((entry: [number, Site | null]): entry is [number, Site] => entry[1] !== null);
+  }
+
+  public operations(pathItem: Site): [HttpMethod, Site][] {
+    return httpMethods
+      .filter((method) => isObject(pathItem.node[method]))
+      .map((method) => [
+        method,
+        { ...pathItem, node: pathItem.node[method], path: [...pathItem.path, method] },
+      ]);
+  }
+
+  public schemas(schema: Site, label: string, targets: LocationTarget[], visited: Set<any>): void {
+    if (visited.has(schema.node)) {
+      return;
+    }
+    visited.add(schema.node);
+    targets.push({ ...schema, label, requirement: {} });
+
+    for (const [key, property] of this.entries(
+      schema,
+      'properties',
+      (key) => `${label}.properties.${key}`
+    )) {
+      this.schemas(property, `${label}.properties.${key}`, targets, visited);
+    }
+    for (const keyword of ['items', 'additionalProperties', 'not']) {
+      const nested = this.child(schema, keyword, `${label}.${keyword}`);
+      if (nested && isObject(nested.node)) {
+        this.schemas(nested, `${label}.${keyword}`, targets, visited);
+      }
+    }
+    for (const keyword of schemaCompositions) {
+      for (const [index, member] of this.items(
+        schema,
+        keyword,
+        (index) => `${label}.${keyword}[${index}]`
+      )) {
+        if (isObject(member.node)) {
+          this.schemas(member, `${label}.${keyword}[${index}]`, targets, visited);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Path-level and operation-level parameters of every path item.
+ */
+function collectParameters(walker: LocationWalker, pathItems: [string, Site][]): LocationTarget[] {
+  const targets: LocationTarget[] = [];
+
+  for (const [pathKey, pathItem] of pathItems) {
+    for (const [index, param] of walker.items(
+      pathItem,
+      'parameters',
+      (index) => `${pathKey} parameters[${index}]`
+    )) {
+      targets.push({
+        ...param,
+        label: `${pathKey} parameters[${index}]`,
+        requirement: { path: pathKey },
+      });
+    }
+
+    // Also check operation-level parameters
+    for (const [method, operation] of walker.operations(pathItem)) {
+      for (const [index, param] of walker.items(
+        operation,
+        'parameters',
+        (index) => `${pathKey}.${method} parameters[${index}]`
+      )) {
+        targets.push({
+          ...param,
+          label: `${pathKey}.${method} parameters[${index}]`,
+          requirement: { path: pathKey, method },
+        });
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Lists every node of the document where an extension declared with `in: location` belongs.
+ * With a resolver, `$ref`s are followed and the target is the referenced definition.
+ * In Swagger 2.0 documents, request bodies are `in: body` parameters, schemas are
+ * `definitions` and security schemes are `securityDefinitions`.
+ */
+export function collectLocationTargets(
+  document: OpenAPIDocument | SwaggerDocument,
+  location: ExtensionLocation,
+  resolver?: RefResolver
+): LocationTarget[] {
+  const walker = new LocationWalker(resolver);
+  const root: Site = { node: document, path: [], references: [] };
+  const isSwagger = detectSpecificationVersion(document) === SpecificationVersionEnum.Swagger2;
+  const components = isSwagger ? root : walker.child(root, 'components', 'components');
+  const prefix = isSwagger ? '' : 'components.';
+  const pathItems = walker.entries(root, 'paths', (pathKey) => pathKey);
+  const targets: LocationTarget[] = [];
+
+  switch (location) {
+    case ExtensionLocationEnum.Root:
+      targets.push({ ...root, label: '', requirement: {} });
+      break;
+
+    case ExtensionLocationEnum.Info: {
+      const info = walker.child(root, 'info', 'info');
+      if (info && isObject(info.node)) {
+        targets.push({ ...info, label: 'info', requirement: {} });
+      }
+      break;
+    }
+
+    case ExtensionLocationEnum.Servers:
+    case ExtensionLocationEnum.Tags:
+      for (const [index, section] of walker.items(
+        root,
+        location,
+        (index) => `${location}[${index}]`
+      )) {
+        targets.push({ ...section, label: `${location}[${index}]`, requirement: {} });
+      }
+      break;
+
+    case ExtensionLocationEnum.Paths:
+      for (const [pathKey, pathItem] of pathItems) {
+        targets.push({ ...pathItem, label: pathKey, requirement: { path: pathKey } });
+      }
+      break;
+
+    case ExtensionLocationEnum.Operations:
+      for (const [pathKey, pathItem] of pathItems) {
+        for (const [method, operation] of walker.operations(pathItem)) {
+          targets.push({
+            ...operation,
+            label: `${pathKey}.${method}`,
+            requirement: { path: pathKey, method },
+          });
+        }
+      }
+      for (const [name, pathItem] of walker.entries(
+        root,
+        'webhooks',
+        (name) => `webhooks.${name}`
+      )) {
+        for (const [method, operation] of walker.operations(pathItem)) {
+          targets.push({
+            ...operation,
+            label: `webhooks.${name}.${method}`,
+            requirement: { method },
+          });
+        }
+      }
+      break;
+
+    case ExtensionLocationEnum.Parameters:
+      targets.push(...collectParameters(walker, pathItems));
+      break;
+
+    case ExtensionLocationEnum.RequestBody:
+      if (isSwagger) {
+        targets.push(
+          ...collectParameters(walker, pathItems).filter((param) => param.node.in === 'body')
+        );
+        break;
+      }
+      for (const [pathKey, pathItem] of pathItems) {
+        for (const [method, operation] of walker.operations(pathItem)) {
+          const label = `${pathKey}.${method} requestBody`;
+          const requestBody = requestBodyMethods.includes(method)
+            ? walker.child(operation, 'requestBody', label)
+            : null;
+          if (requestBody && isObject(requestBody.node)) {
+            targets.push({ ...requestBody, label, requirement: { path: pathKey, method } });
+          }
+        }
+      }
+      break;
+
+    case ExtensionLocationEnum.Responses:
+      for (const [pathKey, pathItem] of pathItems) {
+        for (const [method, operation] of walker.operations(pathItem)) {
+          for (const [statusCode, response] of walker.entries(
+            operation,
+            'responses',
+            (statusCode) => `${pathKey}.${method} responses[${statusCode}]`
+          )) {
+            targets.push({
+              ...response,
+              label: `${pathKey}.${method} responses[${statusCode}]`,
+              requirement: { path: pathKey, method },
+            });
+          }
+        }
+      }
+      break;
+
+    case ExtensionLocationEnum.Callbacks:
+      for (const [pathKey, pathItem] of pathItems) {
+        for (const [method, operation] of walker.operations(pathItem)) {
+          for (const [name, callback] of walker.entries(
+            operation,
+            'callbacks',
+            (name) => `${pathKey}.${method} callbacks.${name}`
+          )) {
+            targets.push({
+              ...callback,
+              label: `${pathKey}.${method} callbacks.${name}`,
+              requirement: { path: pathKey, method },
+            });
+          }
+        }
+      }
+      break;
+
+    case ExtensionLocationEnum.Schemas: {
+      const visited = new Set<any>();
+      const key = isSwagger ? 'definitions' : 'schemas';
+      for (const [name, schema] of walker.entries(
+        components,
+        key,
+        (name) => `${prefix}${key}.${name}`
+      )) {
+        walker.schemas(schema, `${prefix}${key}.${name}`, targets, visited);
+      }
+      break;
+    }
+
+    case ExtensionLocationEnum.SecuritySchemes: {
+      const key = isSwagger ? 'securityDefinitions' : 'securitySchemes';
+      for (const [name, scheme] of walker.entries(
+        components,
+        key,
+        (name) => `${prefix}${key}.${name}`
+      )) {
+        targets.push({ ...scheme, label: `${prefix}${key}.${name}`, requirement: {} });
+      }
+      break;
+    }
+
+    case ExtensionLocationEnum.Webhooks:
+      for (const [name, pathItem] of walker.entries(
+        root,
+        'webhooks',
+        (name) => `webhooks.${name}`
+      )) {
+        targets.push({ ...pathItem, label: `webhooks.${name}`, requirement: {} });
+      }
+      break;
+  }
+
+  return targets;
+}
+
+/**
+ * The locations of every node of the document where extensions belong, by `siteKey` of the
+ * node. Sections reached through `$ref`s count at their definition, which can hold the
+ * extensions of several locations, e.g. a Swagger 2.0 `in: body` parameter.
+ */
+export function collectSiteLocations(
+  document: OpenAPIDocument | SwaggerDocument,
+  resolver?: RefResolver
+): Map<string, ExtensionLocation[]> {
+  const locationsBySite = new Map<string, ExtensionLocation[]>();
+  for (const location of Object.values(ExtensionLocationEnum)) {
+    for (const target of collectLocationTargets(document, location, resolver)) {
+      const key = siteKey(target.file, target.path);
+      locationsBySite.set(key, [...(locationsBySite.get(key) ?? []), location]);
+    }
+  }
+  return locationsBySite;
+}
+
+function isSchemaPath(path: string[]): boolean {
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === 'properties' && i + 1 < path.length) {
+      i++;
+    } else if (!['items', 'additionalProperties', 'not', ...schemaCompositions].includes(path[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Determines the location of the mapping found at `path` from its keys alone, for documents
+ * whose sections cannot be collected, e.g. fragments no root includes yet. Array indexes in
+ * the path are ignored so that paths built from keys only resolve the same way. Returns null
+ * for mappings that are not an extension location.
+ */
+export function locationOfPath(path: (string | number)[]): ExtensionLocation | null {
+  const keys = path.filter((part): part is string => typeof part === 'string');
+  const [section, name, method, child, childName] = keys;
+  const isMethod = (key: string | undefined) => httpMethods.includes(key as HttpMethod);
+
+  if (keys.length === 0) {
+    return ExtensionLocationEnum.Root;
+  }
+
+  switch (section) {
+    case 'info':
+      return keys.length === 1 ? ExtensionLocationEnum.Info : null;
+    case 'servers':
+      return keys.length === 1 ? ExtensionLocationEnum.Servers : null;
+    case 'tags':
+      return keys.length === 1 ? ExtensionLocationEnum.Tags : null;
+    case 'webhooks':
+      if (keys.length === 2) {
+        return ExtensionLocationEnum.Webhooks;
+      }
+      return keys.length === 3 && isMethod(method) ? ExtensionLocationEnum.Operations : null;
+    case 'definitions':
+      return keys.length >= 2 && isSchemaPath(keys.slice(2)) ? ExtensionLocationEnum.Schemas : null;
+    case 'securityDefinitions':
+      return keys.length === 2 ? ExtensionLocationEnum.SecuritySchemes : null;
+    // Swagger 2.0 definitions shared through `$ref`s
+    case 'parameters':
+      return keys.length === 2 ? ExtensionLocationEnum.Parameters : null;
+    case 'responses':
+      return keys.length === 2 ? ExtensionLocationEnum.Responses : null;
+    case 'components':
+      if (name === 'schemas') {
+        return keys.length >= 3 && isSchemaPath(keys.slice(3))
+          ? ExtensionLocationEnum.Schemas
+          : null;
+      }
+      return keys.length === 3 ? (componentLocations[name] ?? null) : null;
+    case 'paths':
+      break;
+    default:
+      return null;
+  }
+
+  if (keys.length === 2) {
+    return ExtensionLocationEnum.Paths;
+  }
+  if (method === 'parameters' && keys.length === 3) {
+    return ExtensionLocationEnum.Parameters;
+  }
+  if (!isMethod(method)) {
+    return null;
+  }
+  if (keys.length === 3) {
+    return ExtensionLocationEnum.Operations;
+  }
+  if (keys.length === 4) {
+    switch (child) {
+      case 'parameters':
+        return ExtensionLocationEnum.Parameters;
+      case 'requestBody':
+        return ExtensionLocationEnum.RequestBody;
+    }
+    return null;
+  }
+  if (keys.length === 5 && childName !== undefined) {
+    switch (child) {
+      case 'responses':
+        return ExtensionLocationEnum.Responses;
+      case 'callbacks':
+        return ExtensionLocationEnum.Callbacks;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Whether a value of a parsed document is a mapping. Arrays are not: callers walking
+ * sequences too check them with `Array.isArray`.
+ */
+export function isObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Fields that hold data rather than specification objects, whatever their keys look like
+const DATA_KEYS = ['example', 'value', 'default', 'enum', 'const'];
+
+/**
+ * Whether the value of `key` is data, whose `$ref` and `x-` keys are neither references nor
+ * extensions. The `examples` of OpenAPI 3.1 schemas are data too, while the `examples` maps of
+ * parameters and media types hold Example Objects.
+ */
+export function holdsData(key: string | number, value: any): boolean {
+  return (
+    (typeof key === 'string' && DATA_KEYS.includes(key)) ||
+    (key === 'examples' && Array.isArray(value))
+  );
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentCache } from './documentCache';
+import { SourceMap } from './sourceMap';
+
+/**
+ * A place in a document: `file` is absent for the document being validated.
+ */
+export type SourceSite = {
+  file?: string;
+  path: (string | number)[];
+  label: string;
+};
+
+/**
+ * The node a reference chain ends at, with every `$ref` site followed to reach it.
+ */
+export type ResolvedNode = {
+  node: any;
+  file?: string;
+  path: (string | number)[];
+  references: SourceSite[];
+};
+
+export type RefResolverOptions = {
+  // Absolute path of the document being validated, needed to resolve relative-file refs
+  file?: string;
+  // Reads another file of the workspace, returns undefined when it is not available
+  readFile?: (file: string) => string | undefined;
+  // Parsed documents kept between runs, files are parsed again on every run without it
+  documents?: DocumentCache;
+};
+
+type LoadedDocument = {
+  content: string;
+  document: any;
+};
+
+export function isReference(node: any): node is { $ref: string } {
+  return typeof node === 'object' && node !== null && typeof node.$ref === 'string';
+}
+
+/**
+ * Absolute path of the file a `$ref` points to, relative to `base`. Returns null for local
+ * (`#/...`) and remote (`https://...`) references.
+ */
+export function resolveFileReference(ref: string, base: string): string | null {
+  const filePart = ref.split('#')[0];
+  if (!filePart || /^[a-z][a-z0-9+.-]*:/i.test(filePart)) {
+    return null;
+  }
+  return path.resolve(path.dirname(base), decode(filePart));
+}
+
+export function siteKey(file: string | undefined, sitePath: (string | number)[]): string {
+  return `${file ?? ''}#/${sitePath.join('/')}`;
+}
+
+/**
+ * Resolves local (`#/components/...`) and relative-file (`./common.yaml#/...`) references.
+ * Remote references are not followed. Loaded files are cached for the resolver's lifetime,
+ * which is a single validation run.
+ */
+export class RefResolver {
+  private documents = new Map<string, LoadedDocument | null>();
+  private parsedDocuments: DocumentCache;
+
+  constructor(
+    private rootContent: string,
+    private rootDocument: any,
+    private options: RefResolverOptions = {}
+  ) {
+    this.parsedDocuments = options.documents ?? new DocumentCache();
+  }
+
+  /**
+   * Returns the text of `file`, or of the validated document when `file` is absent.
+   */
+  public getContent(file?: string): string | undefined {
+    return file === undefined ? this.rootContent : this.load(file)?.content;
+  }
+
+  /**
+   * Returns the source map of `file`, or of the validated document when `file` is absent.
+   */
+  public getSourceMap(file?: string): SourceMap {
+    return this.parsedDocuments.get(this.getContent(file) ?? '').sourceMap;
+  }
+
+  /**
+   * Follows `node` while it is a reference. Returns null when a reference cannot be resolved
+   * or the chain loops back on itself.
+   */
+  public follow(
+    node: any,
+    file: string | undefined,
+    nodePath: (string | number)[],
+    label: string
+  ): ResolvedNode | null {
+    let current: ResolvedNode = { node, file, path: nodePath, references: [] };
+    const seen = new Set<string>();
+
+    while (isReference(current.node)) {
+      const key = siteKey(current.file, current.path);
+      if (seen.has(key)) {
+        return null;
+      }
+      seen.add(key);
+
+      const target = this.resolve(current.node.$ref, current.file);
+      if (!target) {
+        return null;
+      }
+      current = {
+        ...target,
+        references: [...current.references, { file: current.file, path: current.path, label }],
+      };
+    }
+
+    return current;
+  }
+
+  private resolve(
+    ref: string,
+    fromFile: string | undefined
+  ): { node: any; file?: string; path: (string | number)[] } | null {
+    const hashIndex = ref.indexOf('#');
+    const filePart = hashIndex >= 0 ? ref.slice(0, hashIndex) : ref;
+    const pointer = hashIndex >= 0 ? ref.slice(hashIndex + 1) : '';
+
+    let file = fromFile;
+    if (filePart) {
+      const base = fromFile ?? this.options.file;
+      const target = base ? resolveFileReference(ref, base) : null;
+      if (!target) {
+        return null;
+      }
+      file = target === this.options.file ? undefined : target;
+    }
+
+    const document = file === undefined ? this.rootDocument : this.load(file)?.document;
+    if (document === undefined) {
+      return null;
+    }
+
+    let node = document;
+    const nodePath: (string | number)[] = [];
+    for (const segment of this.parsePointer(pointer)) {
+      if (typeof node !== 'object' || node === null) {
+        return null;
+      }
+      const key = Array.isArray(node) ? Number(segment) : segment;
+      if (!Object.prototype.hasOwnProperty.call(node, key)) {
+        return null;
+      }
+      node = node[key];
+      nodePath.push(key);
+    }
+
+    return { node, file, path: nodePath };
+  }
+
+  private parsePointer(pointer: string): string[] {
+    if (pointer === '' || pointer === '/') {
+      return [];
+    }
+    return pointer
+      .split('/')
+      .slice(1)
+      .map((part) => decode(part).replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  private load(file: string): LoadedDocument | null {
+    if (!this.documents.has(file)) {
+      const readFile = this.options.readFile ?? readFromDisk;
+      const content = readFile(file);
+      let loaded: LoadedDocument | null = null;
+      if (content !== undefined) {
+        const parsed = this.parsedDocuments.get(content);
+        loaded = parsed.error ? null : { content, document: parsed.value };
+      }
+      this.documents.set(file, loaded);
+    }
+    return this.documents.get(file) ?? null;
+  }
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function readFromDisk(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,117 @@
+import { DocumentCache } from './documentCache';
+import { resolveFileReference } from './refResolver';
+import { detectFormat, parseDocument } from './sourceMap';
+
+const ROOT_PATTERNS = [/^\s*openapi\s*:\s*['"]*3\./, /^\s*swagger\s*:\s*['"]*2\./];
+// JSON documents may be minified, so the version is searched near the start of the text
+const JSON_ROOT_PATTERN = /"(?:openapi"\s*:\s*"3\.|swagger"\s*:\s*"2\.)/;
+
+/**
+ * Whether the content is a root OpenAPI document rather than a fragment: one of its first
+ * lines declares the specification version.
+ */
+export function isRootDocument(content: string): boolean {
+  if (detectFormat(content) === 'json') {
+    return JSON_ROOT_PATTERN.test(content.slice(0, 1000));
+  }
+  const lines = content.split('\n', 10); // Check first 10 lines
+  return lines.some((line) => ROOT_PATTERNS.some((pattern) => pattern.test(line)));
+}
+
+/**
+ * Files of a multi-file specification and the relative-file `$ref`s between them. Root
+ * documents are linted as a whole; fragments are linted in the context of every root that
+ * includes them, directly or through other fragments.
+ */
+export class ReferenceGraph {
+  private references = new Map<string, Set<string>>();
+  private roots = new Set<string>();
+
+  // Shares the parse of edited documents with their validation
+  constructor(private documents?: DocumentCache) {}
+
+  /**
+   * Records the references of `file` from its content. Returns whether anything changed.
+   */
+  public update(file: string, content: string): boolean {
+    const isRoot = isRootDocument(content);
+    const references = this.extractReferences(file, content);
+    const previous = this.references.get(file);
+    const changed =
+      isRoot !== this.roots.has(file) ||
+      !previous ||
+      previous.size !== references.size ||
+      [...references].some((reference) => !previous.has(reference));
+
+    this.references.set(file, references);
+    if (isRoot) {
+      this.roots.add(file);
+    } else {
+      this.roots.delete(file);
+    }
+    return changed;
+  }
+
+  public remove(file: string): void {
+    this.references.delete(file);
+    this.roots.delete(file);
+  }
+
+  public has(file: string): boolean {
+    return this.references.has(file);
+  }
+
+  public isRoot(file: string): boolean {
+    return this.roots.has(file);
+  }
+
+  /**
+   * Every file reachable from `root` through references, the root included.
+   */
+  public getClosure(root: string): Set<string> {
+    const closure = new Set<string>();
+    const pending = [root];
+
+    while (pending.length > 0) {
+      const file = pending.pop()!;
+      if (closure.has(file)) {
+        continue;
+      }
+      closure.add(file);
+      pending.push(...(this.references.get(file) ?? []));
+    }
+
+    return closure;
+  }
+
+  /**
+   * The root documents whose closure contains `file`, `file` itself when it is a root.
+   */
+  public getRoots(file: string): string[] {
+    return [...this.roots].filter((root) => this.getClosure(root).has(file));
+  }
+
+  private extractReferences(file: string, content: string): Set<string> {
+    const references = new Set<string>();
+    const parsed = this.documents?.get(content) ?? parseDocument(content);
+    if (parsed.error) {
+      return references;
+    }
+
+    const visit = (node: any) => {
+      if (typeof node !== 'object' || node === null) {
+        return;
+      }
+      if (typeof node.$ref === 'string') {
+        const target = resolveFileReference(node.$ref, file);
+        if (target) {
+          references.add(target);
+        }
+      }
+      Object.values(node).forEach(visit);
+    };
+    visit(parsed.value);
+
+    return references;
+  }
+}
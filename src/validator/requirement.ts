@@ -0,0 +1,115 @@
+import { CustomExtensionProperty } from '../types';
+import { HttpMethod, HttpMethodEnum } from './enums';
+
+/**
+ * Where a section sits in the document. Used to evaluate the `required: string[]` form,
+ * whose entries are selectors:
+ * - an HTTP method (`post`, `put`, ...) matches sections inside that operation
+ * - an entry starting with `/` is a path pattern matched against the path template;
+ *   `*` matches one segment and `**` any number of segments
+ * - any other entry names a sub-key of an object extension that must be present
+ *
+ * The extension is required when every kind of location selector present in the list has at
+ * least one match; a list made only of sub-keys keeps the extension required everywhere.
+ */
+export type RequirementContext = {
+  method?: HttpMethod;
+  path?: string;
+};
+
+const httpMethods: string[] = Object.values(HttpMethodEnum);
+
+type RequiredSelectors = {
+  methods: string[];
+  paths: string[];
+  subKeys: string[];
+};
+
+function parseSelectors(required: string[]): RequiredSelectors {
+  const selectors: RequiredSelectors = { methods: [], paths: [], subKeys: [] };
+
+  for (const entry of required) {
+    if (httpMethods.includes(entry.toLowerCase())) {
+      selectors.methods.push(entry.toLowerCase());
+    } else if (entry.startsWith('/')) {
+      selectors.paths.push(entry);
+    } else {
+      selectors.subKeys.push(entry);
+    }
+  }
+
+  return selectors;
+}
+
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  const source = pattern
+    .split('/')
+    .map((segment) => {
+      if (segment === '**') {
+        return '.*';
+      }
+      return segment
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*');
+    })
+    .join('/')
+    .replace(/\/\.\*/g, '(?:/.*)?');
+
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Whether a definition with the given `required` value is required in some sections. `false`
+ * and an empty list of selectors require it nowhere.
+ */
+export function isRequiredAnywhere(required: boolean | string[] | undefined): boolean {
+  return required !== false && !(Array.isArray(required) && required.length === 0);
+}
+
+/**
+ * Whether a definition with the given `required` value must be present in a section
+ * described by `context`.
+ */
+export function isRequiredAt(
+  required: boolean | string[] | undefined,
+  context: RequirementContext
+): boolean {
+  if (required === undefined || required === true) {
+    return true;
+  }
+  // An empty list of selectors matches no section
+  if (required === false || required.length === 0) {
+    return false;
+  }
+
+  const { methods, paths } = parseSelectors(required);
+  const methodMatches =
+    methods.length === 0 || (context.method !== undefined && methods.includes(context.method));
+  const pathMatches =
+    paths.length === 0 ||
+    (context.path !== undefined &&
+      paths.some((pattern) => matchesPathPattern(pattern, context.path!)));
+
+  return methodMatches && pathMatches;
+}
+
+/**
+ * Whether the nested property `key` of an object definition must be present. Sub-keys listed
+ * in the parent's `required` array take precedence over the property's own `required` flag.
+ */
+export function isPropertyRequired(
+  parent: CustomExtensionProperty,
+  key: string,
+  property: CustomExtensionProperty,
+  context: RequirementContext
+): boolean {
+  if (Array.isArray(parent.required)) {
+    const { subKeys } = parseSelectors(parent.required);
+    if (subKeys.length > 0) {
+      return subKeys.includes(key);
+    }
+  }
+
+  return isRequiredAt(property.required, context);
+}
@@ -0,0 +1,17 @@
+import { Rule } from '../../types';
+import { duplicateOperationId, undefinedSecurityScheme, undefinedTag } from './operations';
+import { missingPathParameter, optionalPathParameter } from './pathParameters';
+import { unresolvedRef, unusedComponent } from './references';
+
+/**
+ * Semantic rules run on every document, each can be turned off with the `rules` setting.
+ */
+export const builtInRules: Rule[] = [
+  missingPathParameter,
+  optionalPathParameter,
+  duplicateOperationId,
+  unresolvedRef,
+  unusedComponent,
+  undefinedSecurityScheme,
+  undefinedTag,
+];
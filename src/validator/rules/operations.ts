@@ -0,0 +1,141 @@
+import { Rule, RuleContext } from '../../types';
+import { ExtensionLocationEnum, SeverityEnum, SpecificationVersionEnum } from '../enums';
+import { suggestName } from '../extensionKeys';
+import { LocationTarget, collectLocationTargets } from '../locations';
+import { isObject } from '../nodes';
+import { siteKey } from '../refResolver';
+
+/**
+ * The operations of the document, each once even when several paths reference its path item.
+ */
+function collectOperations({ document, resolver }: RuleContext): LocationTarget[] {
+  const operations = new Map<string, LocationTarget>();
+  for (const operation of collectLocationTargets(
+    document,
+    ExtensionLocationEnum.Operations,
+    resolver
+  )) {
+    const key = siteKey(operation.file, operation.path);
+    if (!operations.has(key)) {
+      operations.set(key, operation);
+    }
+  }
+  return [...operations.values()];
+}
+
+function didYouMean(name: string, candidates: string[]): string {
+  const suggestion = suggestName(name, candidates);
+  return suggestion ? `, did you mean ${suggestion}?` : '';
+}
+
+/**
+ * Code generators and documentation tools name operations by their `operationId`.
+ */
+export const duplicateOperationId: Rule = {
+  name: 'duplicate-operation-id',
+  severity: SeverityEnum.Error,
+  check(context) {
+    const first = new Map<string, LocationTarget>();
+    for (const operation of collectOperations(context)) {
+      const operationId = operation.node.operationId;
+      if (typeof operationId !== 'string') {
+        continue;
+      }
+      const original = first.get(operationId);
+      if (!original) {
+        first.set(operationId, operation);
+        continue;
+      }
+      context.report({
+        message: `Duplicate operationId ${operationId} in ${operation.label}, already used by ${original.label}`,
+        path: [...operation.path, 'operationId'],
+        part: 'value',
+        file: operation.file,
+        related: [
+          {
+            message: `First used by ${original.label}`,
+            file: original.file,
+            path: [...original.path, 'operationId'],
+          },
+        ],
+      });
+    }
+  },
+};
+
+/**
+ * The names of security requirements, of the document and of its operations, must be
+ * declared security schemes.
+ */
+export const undefinedSecurityScheme: Rule = {
+  name: 'undefined-security-scheme',
+  severity: SeverityEnum.Error,
+  check(context) {
+    const { document, version, report } = context;
+    const isSwagger = version === SpecificationVersionEnum.Swagger2;
+    const schemes = isSwagger
+      ? document.securityDefinitions
+      : (document as any).components?.securitySchemes;
+    const declared = isObject(schemes) ? Object.keys(schemes) : [];
+    const section = isSwagger ? 'securityDefinitions' : 'components.securitySchemes';
+
+    const requirements: { security: any; file?: string; path: (string | number)[] }[] = [
+      { security: document.security, path: ['security'] },
+      ...collectOperations(context).map((operation) => ({
+        security: operation.node.security,
+        file: operation.file,
+        path: [...operation.path, 'security'],
+      })),
+    ];
+    for (const { security, file, path } of requirements) {
+      if (!Array.isArray(security)) {
+        continue;
+      }
+      security.forEach((requirement, index) => {
+        if (!isObject(requirement)) {
+          return;
+        }
+        for (const name of Object.keys(requirement)) {
+          if (!declared.includes(name)) {
+            report({
+              message: `Security scheme ${name} is not declared in ${section}${didYouMean(name, declared)}`,
+              path: [...path, index, name],
+              file,
+            });
+          }
+        }
+      });
+    }
+  },
+};
+
+/**
+ * The tags of operations must be declared in the `tags` of the document, where they get
+ * their description and order.
+ */
+export const undefinedTag: Rule = {
+  name: 'undefined-tag',
+  severity: SeverityEnum.Warning,
+  check(context) {
+    const { document, report } = context;
+    const declared = Array.isArray(document.tags)
+      ? document.tags.map((tag: any) => tag?.name).filter((name) => typeof name === 'string')
+      : [];
+
+    for (const operation of collectOperations(context)) {
+      if (!Array.isArray(operation.node.tags)) {
+        continue;
+      }
+      operation.node.tags.forEach((tag: any, index: number) => {
+        if (typeof tag === 'string' && !declared.includes(tag)) {
+          report({
+            message: `Tag ${tag} of ${operation.label} is not declared in tags${didYouMean(tag, declared)}`,
+            path: [...operation.path, 'tags', index],
+            part: 'value',
+            file: operation.file,
+          });
+        }
+      });
+    }
+  },
+};
@@ -0,0 +1,86 @@
+import { Rule } from '../../types';
+import { ExtensionLocationEnum, SeverityEnum } from '../enums';
+import { LocationTarget, collectLocationTargets } from '../locations';
+import { siteKey } from '../refResolver';
+
+function templateVariables(pathKey: string): string[] {
+  return [...pathKey.matchAll(/\{([^{}]+)\}/g)].map((match) => match[1]);
+}
+
+function isPathParameter(parameter: LocationTarget): boolean {
+  return parameter.node.in === 'path' && typeof parameter.node.name === 'string';
+}
+
+/**
+ * Every variable of a path template, e.g. `{id}` in `/users/{id}`, needs an `in: path`
+ * parameter in each operation of the path, declared by the path item or the operation.
+ */
+export const missingPathParameter: Rule = {
+  name: 'missing-path-parameter',
+  severity: SeverityEnum.Error,
+  check({ document, resolver, report }) {
+    const parameters = collectLocationTargets(
+      document,
+      ExtensionLocationEnum.Parameters,
+      resolver
+    ).filter(isPathParameter);
+
+    for (const operation of collectLocationTargets(
+      document,
+      ExtensionLocationEnum.Operations,
+      resolver
+    )) {
+      const { path: pathKey, method } = operation.requirement;
+      if (pathKey === undefined) {
+        continue;
+      }
+      const declared = parameters
+        .filter(
+          ({ requirement }) =>
+            requirement.path === pathKey &&
+            (requirement.method === undefined || requirement.method === method)
+        )
+        .map((parameter) => parameter.node.name);
+
+      for (const variable of templateVariables(pathKey)) {
+        if (!declared.includes(variable)) {
+          report({
+            message: `Path variable {${variable}} of ${operation.label} has no "in: path" parameter`,
+            path: operation.path,
+            file: operation.file,
+          });
+        }
+      }
+    }
+  },
+};
+
+/**
+ * Path parameters are always present in the URL, OpenAPI requires them to say so.
+ */
+export const optionalPathParameter: Rule = {
+  name: 'optional-path-parameter',
+  severity: SeverityEnum.Error,
+  check({ document, resolver, report }) {
+    // A shared parameter is reported once, at its definition
+    const reported = new Set<string>();
+    for (const parameter of collectLocationTargets(
+      document,
+      ExtensionLocationEnum.Parameters,
+      resolver
+    ).filter(isPathParameter)) {
+      const key = siteKey(parameter.file, parameter.path);
+      if (parameter.node.required === true || reported.has(key)) {
+        continue;
+      }
+      reported.add(key);
+      const hasRequired = parameter.node.required !== undefined;
+      report({
+        message: `Path parameter ${parameter.node.name} must be declared with "required: true"`,
+        path: [...parameter.path, hasRequired ? 'required' : 'in'],
+        part: hasRequired ? 'value' : 'key',
+        file: parameter.file,
+      });
+    }
+  },
+};
@@ -0,0 +1,152 @@
+import { Rule } from '../../types';
+import { SeverityEnum, SpecificationVersionEnum } from '../enums';
+import { holdsData, isObject } from '../nodes';
+import { RefResolver, ResolvedNode, isReference, siteKey } from '../refResolver';
+
+// Sections of reusable definitions, by the number of path segments up to a definition's name
+const componentSections = {
+  openapi: { sections: ['components'], depth: 3 },
+  swagger: { sections: ['definitions', 'parameters', 'responses'], depth: 2 },
+};
+
+type ReferenceSite = {
+  ref: string;
+  file?: string;
+  path: (string | number)[];
+  // Null when the reference cannot be resolved
+  target: ResolvedNode | null;
+};
+
+function isRemote(ref: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(ref.split('#')[0]);
+}
+
+/**
+ * Walks a document and the definitions it references, in its own or other files, and
+ * records every reference on the way. Each node is visited once.
+ */
+class ReferenceWalker {
+  public sites: ReferenceSite[] = [];
+  private visited = new Set<any>();
+
+  constructor(private resolver: RefResolver) {}
+
+  public walk(node: any, file: string | undefined, path: (string | number)[]): void {
+    if ((!isObject(node) && !Array.isArray(node)) || this.visited.has(node)) {
+      return;
+    }
+    this.visited.add(node);
+
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => this.walk(item, file, [...path, index]));
+      return;
+    }
+
+    if (isReference(node)) {
+      this.follow(node.$ref, file, path);
+    }
+    for (const [key, value] of Object.entries<any>(node)) {
+      // Discriminator mappings name their schemas by reference or by name
+      if (key === 'mapping' && path[path.length - 1] === 'discriminator' && isObject(value)) {
+        for (const [name, ref] of Object.entries(value)) {
+          if (typeof ref === 'string') {
+            this.follow(ref.includes('/') ? ref : `#/components/schemas/${ref}`, file, [
+              ...path,
+              key,
+              name,
+            ]);
+          }
+        }
+      } else if (!holdsData(key, value) && !key.startsWith('x-')) {
+        this.walk(value, file, [...path, key]);
+      }
+    }
+  }
+
+  private follow(ref: string, file: string | undefined, path: (string | number)[]): void {
+    if (isRemote(ref)) {
+      return;
+    }
+    const target = this.resolver.follow({ $ref: ref }, file, path, '');
+    this.sites.push({ ref, file, path, target });
+    if (target) {
+      this.walk(target.node, target.file, target.path);
+    }
+  }
+}
+
+/**
+ * Local and relative-file references must point at an existing node. Remote references are
+ * not checked.
+ */
+export const unresolvedRef: Rule = {
+  name: 'unresolved-ref',
+  severity: SeverityEnum.Error,
+  check({ document, resolver, report }) {
+    const walker = new ReferenceWalker(resolver);
+    walker.walk(document, undefined, []);
+    for (const { ref, file, path, target } of walker.sites) {
+      if (!target) {
+        report({
+          message: `Reference ${ref} cannot be resolved`,
+          path: path[path.length - 2] === 'mapping' ? path : [...path, '$ref'],
+          part: 'value',
+          file,
+        });
+      }
+    }
+  },
+};
+
+/**
+ * Reusable definitions no operation, webhook or other used definition refers to. Documents
+ * without paths and webhooks are libraries of definitions and are not checked.
+ */
+export const unusedComponent: Rule = {
+  name: 'unused-component',
+  severity: SeverityEnum.Warning,
+  check({ document, version, resolver, report }) {
+    if (!isObject(document.paths) && !isObject((document as any).webhooks)) {
+      return;
+    }
+    const { sections, depth } =
+      version === SpecificationVersionEnum.Swagger2
+        ? componentSections.swagger
+        : componentSections.openapi;
+
+    const walker = new ReferenceWalker(resolver);
+    for (const [key, value] of Object.entries(document)) {
+      if (!sections.includes(key)) {
+        walker.walk(value, undefined, [key]);
+      }
+    }
+    // A chain of references uses every definition it passes through
+    const used = new Set(
+      walker.sites
+        .flatMap(({ target }) => (target ? [...target.references.slice(1), target] : []))
+        .filter((site) => site.file === undefined)
+        .map((site) => siteKey(undefined, site.path.slice(0, depth)))
+    );
+
+    for (const section of sections) {
+      const definitions: [string, any][] = Object.entries((document as any)[section] ?? {});
+      // Components are grouped by kind, security schemes are used by name instead, and
+      // extensions of `components` are not components
+      const entries =
+        depth === 3
+          ? definitions
+              .filter(
+                ([kind, group]) =>
+                  kind !== 'securitySchemes' && !kind.startsWith('x-') && isObject(group)
+              )
+              .flatMap(([kind, group]) => Object.keys(group).map((name) => [kind, name]))
+          : definitions.map(([name]) => [name]);
+      for (const names of entries) {
+        const path = [section, ...names];
+        if (!used.has(siteKey(undefined, path))) {
+          report({ message: `${path.join('.')} is never referenced`, path });
+        }
+      }
+    }
+  },
+};
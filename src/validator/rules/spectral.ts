@@ -0,0 +1,368 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { JSONPath } from 'jsonpath-plus';
+import { Rule, SpectralRule, SpectralSeverity, SpectralThen } from '../../types';
+import { SeverityEnum, SpecificationVersion, SpecificationVersionEnum } from '../enums';
+import { suggestName } from '../extensionKeys';
+import { holdsData } from '../nodes';
+import { RefResolver, isReference, siteKey } from '../refResolver';
+import { describeSchemaErrors, parsePointer } from '../schemaErrors';
+
+// A mistake found by a function, `path` leads from the checked value to the node at fault
+type FunctionIssue = {
+  message: string;
+  path?: (string | number)[];
+};
+
+type SpectralFunction = (value: any, options: any, subject: string) => FunctionIssue[];
+
+// Where a node is defined: `file` is absent for the validated document
+type Origin = {
+  file?: string;
+  path: (string | number)[];
+};
+
+/**
+ * A copy of the document with its `$ref`s replaced by their targets, as Spectral evaluates
+ * it, and the origin of each of its mappings and sequences.
+ */
+type ResolvedDocument = {
+  value: any;
+  origins: Map<object, Origin>;
+};
+
+// The Spectral formats of each specification version
+const formats: Record<SpecificationVersion, string[]> = {
+  [SpecificationVersionEnum.Swagger2]: ['oas2'],
+  [SpecificationVersionEnum.OpenAPI30]: ['oas3', 'oas3_0'],
+  [SpecificationVersionEnum.OpenAPI31]: ['oas3', 'oas3_1'],
+};
+
+const casings: Record<string, string> = {
+  flat: '[a-z][a-z{digits}]*',
+  camel: '[a-z][a-z{digits}]*(?:[A-Z][a-z{digits}]*)*',
+  pascal: '(?:[A-Z][a-z{digits}]*)+',
+  kebab: '[a-z][a-z{digits}]*(?:-[a-z{digits}]+)*',
+  cobol: '[A-Z][A-Z{digits}]*(?:-[A-Z{digits}]+)*',
+  snake: '[a-z][a-z{digits}]*(?:_[a-z{digits}]+)*',
+  macro: '[A-Z][A-Z{digits}]*(?:_[A-Z{digits}]+)*',
+};
+
+// Patterns are written as `/source/flags` or as a bare source
+function toRegExp(pattern: string): RegExp {
+  const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return match ? new RegExp(match[1], match[2]) : new RegExp(pattern);
+}
+
+function describeLength(value: any): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return value.length;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).length;
+  }
+  return typeof value === 'number' ? value : undefined;
+}
+
+const functions: Record<string, SpectralFunction> = {
+  truthy: (value, _, subject) => (value ? [] : [{ message: `${subject} must be truthy` }]),
+  falsy: (value, _, subject) => (value ? [{ message: `${subject} must be falsy` }] : []),
+  defined: (value, _, subject) =>
+    value === undefined ? [{ message: `${subject} must be defined` }] : [],
+  undefined: (value, _, subject) =>
+    value !== undefined ? [{ message: `${subject} must be undefined` }] : [],
+  pattern: (value, options, subject) => {
+    if (typeof value !== 'string') {
+      return [];
+    }
+    const issues: FunctionIssue[] = [];
+    if (options?.match !== undefined && !toRegExp(options.match).test(value)) {
+      issues.push({ message: `${subject} must match the pattern ${options.match}` });
+    }
+    if (options?.notMatch !== undefined && toRegExp(options.notMatch).test(value)) {
+      issues.push({ message: `${subject} must not match the pattern ${options.notMatch}` });
+    }
+    return issues;
+  },
+  enumeration: (value, options, subject) => {
+    const values: any[] = options?.values ?? [];
+    if (value === undefined || typeof value === 'object' || values.includes(value)) {
+      return [];
+    }
+    const suggestion =
+      typeof value === 'string'
+        ? suggestName(
+            value,
+            values.filter((candidate): candidate is string => typeof candidate === 'string')
+          )
+        : undefined;
+    return [
+      {
+        message:
+          `${subject} must be one of ${values.join(', ')}` +
+          (suggestion !== undefined ? `, did you mean ${suggestion}?` : ''),
+      },
+    ];
+  },
+  length: (value, options, subject) => {
+    const length = describeLength(value);
+    if (length === undefined) {
+      return [];
+    }
+    if (options?.min !== undefined && length < options.min) {
+      return [{ message: `${subject} must not be shorter than ${options.min}` }];
+    }
+    if (options?.max !== undefined && length > options.max) {
+      return [{ message: `${subject} must not be longer than ${options.max}` }];
+    }
+    return [];
+  },
+  casing: (value, options, subject) => {
+    const casing = casings[options?.type];
+    if (typeof value !== 'string' || casing === undefined) {
+      return [];
+    }
+    const pattern = new RegExp(
+      `^${casing.replace(/\{digits\}/g, options.disallowDigits ? '' : '0-9')}$`
+    );
+    return pattern.test(value) ? [] : [{ message: `${subject} must be ${options.type} case` }];
+  },
+};
+
+/**
+ * Compiles the `schema` function of a rule once, ajv compiles far slower than it validates.
+ */
+function createSchemaFunction(schema: object): SpectralFunction {
+  const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+  addFormats(ajv);
+  const validate: ValidateFunction = ajv.compile(schema);
+  return (value, _, subject) => {
+    if (value === undefined || validate(value)) {
+      return [];
+    }
+    return describeSchemaErrors(validate.errors ?? [], subject).map((issue) => ({
+      message: issue.message,
+      path: issue.path,
+    }));
+  };
+}
+
+function toSeverity(severity: SpectralSeverity | undefined): Rule['severity'] | undefined {
+  switch (severity) {
+    case 'error':
+    case 0:
+      return SeverityEnum.Error;
+    case 'info':
+    case 2:
+      return SeverityEnum.Info;
+    case 'hint':
+    case 3:
+      return SeverityEnum.Hint;
+    case 'off':
+    case -1:
+      return undefined;
+    default:
+      // Spectral's default
+      return SeverityEnum.Warning;
+  }
+}
+
+function toPointer(path: (string | number)[]): string {
+  return path.map((part) => `/${String(part).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+// Every Spectral rule of a validation run evaluates the same resolved document
+const resolvedDocuments = new WeakMap<RefResolver, ResolvedDocument>();
+
+/**
+ * Resolves the `$ref`s of `document`, in its own and other files. A definition is copied once
+ * however many references reach it. References looping back to a definition being copied, and
+ * those that cannot be resolved, are kept as they are.
+ */
+function resolveDocument(document: any, resolver: RefResolver): ResolvedDocument {
+  const cached = resolvedDocuments.get(resolver);
+  if (cached) {
+    return cached;
+  }
+
+  const origins = new Map<object, Origin>();
+  const copies = new Map<string, any>();
+  const copying = new Set<string>();
+  const copy = (node: any, file: string | undefined, path: (string | number)[]): any => {
+    const target = isReference(node)
+      ? resolver.follow(node, file, path, '$ref')
+      : { node, file, path };
+    if (!target || typeof target.node !== 'object' || target.node === null) {
+      return target ? target.node : node;
+    }
+    const key = siteKey(target.file, target.path);
+    if (copying.has(key)) {
+      return node;
+    }
+    if (copies.has(key)) {
+      return copies.get(key);
+    }
+
+    copying.add(key);
+    const value = Array.isArray(target.node)
+      ? target.node.map((item, index) => copy(item, target.file, [...target.path, index]))
+      : Object.fromEntries(
+          Object.entries<any>(target.node).map(([name, nested]) => [
+            name,
+            // Data and extensions are free-form, their `$ref` keys are not references
+            holdsData(name, nested) || name.startsWith('x-')
+              ? nested
+              : copy(nested, target.file, [...target.path, name]),
+          ])
+        );
+    copying.delete(key);
+    copies.set(key, value);
+    origins.set(value, { file: target.file, path: target.path });
+    return value;
+  };
+
+  const resolved = { value: copy(document, undefined, []), origins };
+  resolvedDocuments.set(resolver, resolved);
+  return resolved;
+}
+
+/**
+ * Where the node at `path` of the resolved document is defined: under the definition of the
+ * innermost mapping or sequence on the way, its file included.
+ */
+function originOf(resolved: ResolvedDocument, path: (string | number)[]): Origin {
+  let origin: Origin = { path };
+  let node = resolved.value;
+  for (let index = 0; index <= path.length; index++) {
+    const site = typeof node === 'object' && node !== null ? resolved.origins.get(node) : undefined;
+    if (site) {
+      origin = { file: site.file, path: [...site.path, ...path.slice(index)] };
+    }
+    node = typeof node === 'object' && node !== null ? node[path[index]] : undefined;
+  }
+  return origin;
+}
+
+function formatMessage(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => values[name] ?? placeholder);
+}
+
+/**
+ * The nodes a `then` applies to within a node matched by `given`, with the path leading to
+ * them from the root of the document.
+ */
+function selectFields(
+  then: SpectralThen,
+  value: any,
+  path: (string | number)[]
+): { value: any; path: (string | number)[]; part: 'key' | 'value' }[] {
+  const { field } = then;
+  if (field === undefined) {
+    return [{ value, path, part: 'value' }];
+  }
+  if (field === '@key') {
+    // The keys of the matched node, e.g. the paths of `$.paths`
+    return typeof value === 'object' && value !== null
+      ? Object.keys(value).map((key) => ({ value: key, path: [...path, key], part: 'key' }))
+      : [];
+  }
+  if (field.startsWith('$')) {
+    return JSONPath({ path: field, json: value, resultType: 'all' }).map((result: any) => ({
+      value: result.value,
+      path: [...path, ...parsePointer(result.pointer)],
+      part: 'value',
+    }));
+  }
+
+  const segments = field.split('.');
+  const fieldValue = segments.reduce(
+    (node, segment) => (typeof node === 'object' && node !== null ? node[segment] : undefined),
+    value
+  );
+  return [{ value: fieldValue, path: [...path, ...segments], part: 'value' }];
+}
+
+/**
+ * Creates a rule evaluating a Spectral rule definition: its `then` functions are applied to
+ * the nodes of the document matched by `given`, with its `$ref`s resolved unless the rule sets
+ * `resolved: false`. Findings are reported at the definition of the node at fault, once however
+ * many references reach it. Returns null for rules turned off. Throws when a function is not one
+ * of the supported core functions.
+ */
+export function createSpectralRule(name: string, definition: SpectralRule): Rule | null {
+  const severity = toSeverity(definition.severity);
+  if (severity === undefined) {
+    return null;
+  }
+
+  const givens = Array.isArray(definition.given) ? definition.given : [definition.given];
+  const thens = (Array.isArray(definition.then) ? definition.then : [definition.then]).map(
+    (then) => {
+      const apply =
+        then.function === 'schema'
+          ? createSchemaFunction(then.functionOptions?.schema ?? {})
+          : functions[then.function];
+      if (!apply) {
+        throw new Error(
+          `Spectral rule ${name} uses the function ${then.function}, supported functions are ` +
+            `${[...Object.keys(functions), 'schema'].join(', ')}`
+        );
+      }
+      return { then, apply };
+    }
+  );
+
+  return {
+    name,
+    severity,
+    check({ document, version, resolver, report }) {
+      if (definition.formats && !definition.formats.some((f) => formats[version].includes(f))) {
+        return;
+      }
+
+      const resolved: ResolvedDocument =
+        definition.resolved === false
+          ? { value: document, origins: new Map() }
+          : resolveDocument(document, resolver);
+      const reported = new Set<string>();
+      for (const given of givens) {
+        for (const match of JSONPath({ path: given, json: resolved.value, resultType: 'all' })) {
+          const matchPath = parsePointer(match.pointer);
+          for (const { then, apply } of thens) {
+            for (const field of selectFields(then, match.value, matchPath)) {
+              const fieldOrigin = originOf(resolved, field.path);
+              const subject =
+                field.part === 'key' ? `"${field.value}"` : toPointer(fieldOrigin.path);
+              for (const issue of apply(field.value, then.functionOptions, subject)) {
+                const { file, path } = originOf(resolved, [...field.path, ...(issue.path ?? [])]);
+                const message = formatMessage(
+                  definition.message ?? definition.description ?? '{{error}}',
+                  {
+                    error: issue.message,
+                    description: definition.description ?? '',
+                    property: String(path[path.length - 1] ?? ''),
+                    value: JSON.stringify(field.value) ?? 'undefined',
+                    path: path.join('.'),
+                  }
+                );
+                const key = JSON.stringify([file, path, field.part, message]);
+                if (reported.has(key)) {
+                  continue;
+                }
+                reported.add(key);
+
+                // Missing fields are highlighted at the closest node that exists
+                const sourceMap = resolver.getSourceMap(file);
+                let located = path;
+                while (located.length > 0 && !sourceMap.locate(located, field.part)) {
+                  located = located.slice(0, -1);
+                }
+                report({ message, path: located, part: field.part, file });
+              }
+            }
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,255 @@
+import { ErrorObject } from 'ajv';
+import { suggestName } from './extensionKeys';
+
+/**
+ * A schema validation error rendered for people. `part` tells whether the key or the value
+ * of the node at `path` is at fault.
+ */
+export type SchemaIssue = {
+  path: string[];
+  part: 'key' | 'value';
+  message: string;
+};
+
+const combinators = ['anyOf', 'oneOf'];
+
+/**
+ * Splits an ajv `instancePath` (a JSON pointer) into its unescaped segments.
+ */
+export function parsePointer(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isWithin(error: ErrorObject, instancePath: string): boolean {
+  return error.instancePath === instancePath || error.instancePath.startsWith(`${instancePath}/`);
+}
+
+function depth(error: ErrorObject): number {
+  return parsePointer(error.instancePath).length;
+}
+
+/**
+ * Renders the errors of a failed schema validation, one issue per actual mistake: every
+ * failed `anyOf`/`oneOf` is replaced by the errors of the branch the value was most likely
+ * meant to match, instead of the errors of all of them. Messages name the nodes by their
+ * pointer, prefixed with `root` when the validated value is not the whole document.
+ */
+export function describeSchemaErrors(errors: ErrorObject[], root = ''): SchemaIssue[] {
+  const issues = new Map<string, SchemaIssue>();
+  for (const error of selectErrors(errors)) {
+    const issue = describeError(error, root);
+    if (issue) {
+      issues.set(`${issue.path.join('/')}:${issue.message}`, issue);
+    }
+  }
+  return [...issues.values()];
+}
+
+/**
+ * ajv reports the errors of every branch of a combinator, in branch order, right before the
+ * combinator's own error. Combinators are resolved innermost first so that an outer one sees
+ * the errors selected for the inner ones.
+ */
+function selectErrors(errors: ErrorObject[]): ErrorObject[] {
+  const selected: ErrorObject[] = [];
+  for (const error of errors) {
+    if (!combinators.includes(error.keyword)) {
+      selected.push(error);
+      continue;
+    }
+
+    let start = selected.length;
+    while (start > 0 && isWithin(selected[start - 1], error.instancePath)) {
+      start--;
+    }
+    const branchErrors = selected.splice(start);
+    const { preceding, branches } = splitBranches(branchErrors, error);
+    selected.push(...preceding);
+
+    // Matching several branches of a oneOf is a mistake of its own
+    if (error.keyword === 'oneOf' && Array.isArray(error.params.passingSchemas)) {
+      selected.push(error);
+    } else if (branches.length === 0) {
+      selected.push(error);
+    } else {
+      selected.push(...pickBranch(branches, error));
+    }
+  }
+  return selected;
+}
+
+/**
+ * Groups the errors preceding a combinator by branch. Errors of branches inlined by ajv carry
+ * the branch index in their `schemaPath`, those of referenced schemas have a path of their
+ * own and belong to the branch of the error before them. Errors before the first branch come
+ * from the keywords evaluated before the combinator.
+ */
+function splitBranches(
+  errors: ErrorObject[],
+  combinator: ErrorObject
+): { preceding: ErrorObject[]; branches: ErrorObject[][] } {
+  const prefix = `${combinator.schemaPath}/`;
+  const branchOf = (error: ErrorObject) => {
+    if (!error.schemaPath.startsWith(prefix)) {
+      return undefined;
+    }
+    const index = parseInt(error.schemaPath.slice(prefix.length), 10);
+    return Number.isNaN(index) ? undefined : index;
+  };
+
+  const firstLabelled = errors.findIndex((error) => branchOf(error) !== undefined);
+  if (firstLabelled === -1) {
+    // Branches that are all references cannot be told apart
+    return { preceding: [], branches: errors.length > 0 ? [errors] : [] };
+  }
+  const firstBranch = branchOf(errors[firstLabelled])!;
+  const preceding = firstBranch === 0 ? errors.slice(0, firstLabelled) : [];
+
+  const branches = new Map<number, ErrorObject[]>();
+  let current = firstBranch === 0 ? 0 : firstBranch - 1;
+  for (const error of errors.slice(preceding.length)) {
+    current = branchOf(error) ?? current;
+    branches.set(current, [...(branches.get(current) ?? []), error]);
+  }
+  return { preceding, branches: [...branches.values()] };
+}
+
+/**
+ * The errors of the branch the value was most likely meant to match: a branch only asking for
+ * a `$ref` is a reference the value is not, then the branch that failed the deepest inside
+ * the value matched its shape the best, then the one with the fewest errors.
+ */
+function pickBranch(branches: ErrorObject[][], combinator: ErrorObject): ErrorObject[] {
+  // A value of the wrong type for every branch gets a single error listing the types
+  const types = branches.map((errors) =>
+    errors.length === 1 &&
+    errors[0].keyword === 'type' &&
+    errors[0].instancePath === combinator.instancePath
+      ? String(errors[0].params.type)
+      : undefined
+  );
+  if (types.every((type) => type !== undefined) && branches.length > 1) {
+    return [{ ...branches[0][0], params: { type: types.join(',') } }];
+  }
+
+  const asksForReference = (errors: ErrorObject[]) =>
+    errors.some(
+      (error) =>
+        error.keyword === 'required' &&
+        error.params.missingProperty === '$ref' &&
+        error.instancePath === combinator.instancePath
+    );
+  const score = (errors: ErrorObject[]) => ({
+    reference: asksForReference(errors) ? 1 : 0,
+    depth: Math.max(...errors.map(depth)),
+    count: errors.length,
+  });
+
+  let best = branches[0];
+  for (const branch of branches.slice(1)) {
+    const [a, b] = [score(branch), score(best)];
+    if (
+      a.reference < b.reference ||
+      (a.reference === b.reference &&
+        (a.depth > b.depth || (a.depth === b.depth && a.count < b.count)))
+    ) {
+      best = branch;
+    }
+  }
+  return best;
+}
+
+function formatValue(value: any): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function describeError(error: ErrorObject, root: string): SchemaIssue | null {
+  const path = parsePointer(error.instancePath);
+  const where = `${root}${error.instancePath}` || '/';
+  const params: Record<string, any> = error.params;
+
+  switch (error.keyword) {
+    case 'additionalProperties':
+    case 'unevaluatedProperties': {
+      const property = params.additionalProperty ?? params.unevaluatedProperty;
+      return {
+        path: [...path, property],
+        part: 'key',
+        message: `Property "${property}" is not allowed at ${where}`,
+      };
+    }
+    case 'required':
+      return {
+        path,
+        part: 'key',
+        message: `Missing required property "${params.missingProperty}" at ${where}`,
+      };
+    case 'type':
+      return {
+        path,
+        part: 'value',
+        message: `${where} must be of type ${String(params.type).split(',').join(' or ')}, got ${describeType(error.data)}`,
+      };
+    case 'enum': {
+      const allowed: any[] = params.allowedValues;
+      const suggestion =
+        typeof error.data === 'string'
+          ? suggestName(
+              error.data,
+              allowed.filter((value): value is string => typeof value === 'string')
+            )
+          : undefined;
+      return {
+        path,
+        part: 'value',
+        message:
+          `${where} must be one of ${allowed.map(formatValue).join(', ')}, got ${formatValue(error.data)}` +
+          (suggestion !== undefined ? `, did you mean "${suggestion}"?` : ''),
+      };
+    }
+    case 'const':
+      return {
+        path,
+        part: 'value',
+        message: `${where} must be ${formatValue(params.allowedValue)}, got ${formatValue(error.data)}`,
+      };
+    case 'format':
+      return {
+        path,
+        part: 'value',
+        message: `${where} must be a valid ${params.format}, got ${formatValue(error.data)}`,
+      };
+    case 'pattern':
+      return {
+        path,
+        part: 'value',
+        message: `${where} must match pattern ${params.pattern}, got ${formatValue(error.data)}`,
+      };
+    case 'oneOf':
+      if (Array.isArray(params.passingSchemas)) {
+        return {
+          path,
+          part: 'key',
+          message: `${where} must match exactly one of the allowed shapes, it matches ${params.passingSchemas.length}`,
+        };
+      }
+    // falls through
+    case 'anyOf':
+      return { path, part: 'key', message: `${where} does not match any of the allowed shapes` };
+    case 'if':
+      // Reported by the errors of its `then` or `else` branch
+      return null;
+    default:
+      return { path, part: 'key', message: `${where} ${error.message}` };
+  }
+}
@@ -0,0 +1,326 @@
+import * as jsonc from 'jsonc-parser';
+import * as YAML from 'yaml';
+
+export type DocumentFormat = 'yaml' | 'json';
+
+/**
+ * A position in a document, 1-based like editor line and column numbers. The end is known
+ * when the node was located from a parsed tree.
+ */
+export type SourceLocation = {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+};
+
+/**
+ * Maps paths of the parsed document (keys and array indexes) back to the source text.
+ */
+export interface SourceMap {
+  /**
+   * Location of the key (default) or of the value of the node at `path`, null when absent.
+   * The root and array items have no key, their value is located instead.
+   */
+  locate(path: (string | number)[], part?: 'key' | 'value'): SourceLocation | null;
+
+  /**
+   * The mapping key at a 1-based position with the path of the mapping holding it, null when
+   * the position is not on a key.
+   */
+  keyAt(line: number, column: number): KeyAtPosition | null;
+}
+
+export type KeyAtPosition = {
+  key: string;
+  path: (string | number)[];
+  location: SourceLocation;
+};
+
+export function detectFormat(content: string): DocumentFormat {
+  return /^\s*[{[]/.test(content) ? 'json' : 'yaml';
+}
+
+/**
+ * Format of a document open in an editor: JSON by its language, otherwise detected from its
+ * content since YAML documents may be written as JSON.
+ */
+export function formatOfDocument(document: {
+  languageId: string;
+  getText(): string;
+}): DocumentFormat {
+  return document.languageId === 'json' ? 'json' : detectFormat(document.getText());
+}
+
+export function createSourceMap(content: string, format = detectFormat(content)): SourceMap {
+  return format === 'json' ? new JsonSourceMap(content) : new YamlSourceMap(content);
+}
+
+/**
+ * A document parsed once for both its value and its source map. `value` is undefined when
+ * the content does not parse, `error` then holds the first parse error.
+ */
+export type ParsedDocument = {
+  format: DocumentFormat;
+  value?: any;
+  error?: { message: string; line?: number; column?: number };
+  sourceMap: SourceMap;
+};
+
+export function parseDocument(content: string, format = detectFormat(content)): ParsedDocument {
+  if (format === 'json') {
+    const sourceMap = new JsonSourceMap(content);
+    const [first] = sourceMap.errors;
+    if (!first) {
+      return { format, value: sourceMap.toJS(), sourceMap };
+    }
+    return {
+      format,
+      error: {
+        message: jsonc.printParseErrorCode(first.error),
+        ...new LineIndex(content).position(first.offset),
+      },
+      sourceMap,
+    };
+  }
+
+  const sourceMap = new YamlSourceMap(content);
+  try {
+    if (sourceMap.errors.length > 0) {
+      throw sourceMap.errors[0];
+    }
+    return { format, value: sourceMap.toJS(), sourceMap };
+  } catch (parseError) {
+    const position = (parseError as YAML.YAMLError).linePos?.[0];
+    return {
+      format,
+      error: { message: String(parseError), line: position?.line, column: position?.col },
+      sourceMap,
+    };
+  }
+}
+
+/**
+ * Converts offsets of a text to 1-based line and column numbers.
+ */
+export class LineIndex {
+  private lineStarts: number[] = [0];
+
+  constructor(content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  public position(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+
+  public offset(line: number, column: number): number {
+    return (this.lineStarts[line - 1] ?? 0) + column - 1;
+  }
+}
+
+export class JsonSourceMap implements SourceMap {
+  private root: jsonc.Node | undefined;
+  private lines: LineIndex;
+  // Comments are reported, they are not allowed in JSON documents
+  public readonly errors: jsonc.ParseError[] = [];
+
+  constructor(private content: string) {
+    this.root = jsonc.parseTree(content, this.errors, { disallowComments: true });
+    this.lines = new LineIndex(content);
+  }
+
+  public toJS(): any {
+    return this.root && jsonc.getNodeValue(this.root);
+  }
+
+  public locate(path: (string | number)[], part: 'key' | 'value' = 'key'): SourceLocation | null {
+    if (!this.root) {
+      return null;
+    }
+
+    // Segments from JSON pointers are strings, array items are found by their numeric value
+    let node: jsonc.Node | undefined = this.root;
+    for (const segment of path) {
+      node =
+        node.type === 'array'
+          ? node.children?.[Number(segment)]
+          : node.children?.find((property) => property.children?.[0].value === String(segment))
+              ?.children?.[1];
+      if (!node) {
+        return null;
+      }
+    }
+
+    const property = node.parent?.type === 'property' ? node.parent : undefined;
+    if (part === 'key' && property?.children?.[0]) {
+      return this.toLocation(property.children[0].offset, property.children[0].length);
+    }
+    // Without a key, highlighting a whole object or array would cover the document
+    const isContainer = node.type === 'object' || node.type === 'array';
+    return this.toLocation(node.offset, part === 'key' && isContainer ? 1 : node.length);
+  }
+
+  /**
+   * Path of the object the cursor is in when it sits on a property key, null elsewhere.
+   */
+  public objectPathAt(line: number, column: number): (string | number)[] | null {
+    const location = jsonc.getLocation(this.content, this.lines.offset(line, column));
+    if (!location.isAtPropertyKey) {
+      return null;
+    }
+    return location.path.slice(0, -1);
+  }
+
+  public keyAt(line: number, column: number): KeyAtPosition | null {
+    if (!this.root) {
+      return null;
+    }
+    const node = jsonc.findNodeAtOffset(this.root, this.lines.offset(line, column), true);
+    const property = node?.parent;
+    if (
+      node?.type !== 'string' ||
+      property?.type !== 'property' ||
+      property.children?.[0] !== node
+    ) {
+      return null;
+    }
+    return {
+      key: node.value,
+      path: jsonc.getNodePath(property.parent!),
+      location: this.toLocation(node.offset, node.length),
+    };
+  }
+
+  private toLocation(offset: number, length: number): SourceLocation {
+    const start = this.lines.position(offset);
+    const end = this.lines.position(offset + length);
+    return { ...start, endLine: end.line, endColumn: end.column };
+  }
+}
+
+/**
+ * Parses the first document of a YAML stream, the one that holds the specification when a
+ * file contains several. Throws the first parse error.
+ */
+export function parseYaml(content: string): any {
+  const document = parseFirstDocument(content);
+  if (document.errors.length > 0) {
+    throw document.errors[0];
+  }
+  return document.toJS();
+}
+
+function parseFirstDocument(content: string, lineCounter?: YAML.LineCounter): YAML.Document {
+  const [first] = YAML.parseAllDocuments(content, { lineCounter });
+  return first ?? new YAML.Document(null);
+}
+
+/**
+ * Locates YAML nodes from the ranges of the parsed document, so flow collections, quoted keys
+ * and aliases map to the exact node.
+ */
+export class YamlSourceMap implements SourceMap {
+  private document: YAML.Document;
+  private lineCounter = new YAML.LineCounter();
+
+  constructor(private content: string) {
+    this.document = parseFirstDocument(content, this.lineCounter);
+  }
+
+  public get errors(): YAML.YAMLError[] {
+    return this.document.errors;
+  }
+
+  public toJS(): any {
+    return this.document.toJS();
+  }
+
+  public locate(path: (string | number)[], part: 'key' | 'value' = 'key'): SourceLocation | null {
+    let node: unknown = this.document.contents;
+    let key: unknown = null;
+
+    for (const segment of path) {
+      node = this.resolveAlias(node);
+      if (YAML.isMap(node)) {
+        const pair = node.items.find(
+          (item) => YAML.isScalar(item.key) && String(item.key.value) === String(segment)
+        );
+        if (!pair) {
+          return null;
+        }
+        key = pair.key;
+        node = pair.value;
+      } else if (YAML.isSeq(node) && node.items[Number(segment)] !== undefined) {
+        key = null;
+        node = node.items[Number(segment)];
+      } else {
+        return null;
+      }
+    }
+
+    // Keys without a value (`key:`) are located by the key itself
+    const located = part === 'key' && YAML.isNode(key) ? key : YAML.isNode(node) ? node : key;
+    if (!YAML.isNode(located) || !located.range) {
+      return null;
+    }
+
+    const [start, end] = located.range;
+    if (located !== key && YAML.isCollection(located)) {
+      // Without a key, highlighting a whole block would cover many lines
+      const lineEnd = this.content.indexOf('\n', start);
+      return this.toLocation(start, lineEnd >= 0 ? Math.min(end, lineEnd) : end);
+    }
+    return this.toLocation(start, end);
+  }
+
+  public keyAt(line: number, column: number): KeyAtPosition | null {
+    const offset = this.lineCounter.lineStarts[line - 1] + column - 1;
+    const contains = (node: YAML.Node) =>
+      !!node.range && node.range[0] <= offset && offset <= node.range[1];
+
+    // Descends into the collections containing the position only
+    const find = (node: unknown, path: (string | number)[]): KeyAtPosition | null => {
+      if (YAML.isMap(node)) {
+        for (const pair of node.items) {
+          if (YAML.isScalar(pair.key) && contains(pair.key)) {
+            const [start, end] = pair.key.range!;
+            return { key: String(pair.key.value), path, location: this.toLocation(start, end) };
+          }
+          if (YAML.isNode(pair.value) && contains(pair.value)) {
+            return find(pair.value, [...path, String((pair.key as YAML.Scalar)?.value)]);
+          }
+        }
+      } else if (YAML.isSeq(node)) {
+        const index = node.items.findIndex((item) => YAML.isNode(item) && contains(item));
+        return index >= 0 ? find(node.items[index], [...path, index]) : null;
+      }
+      return null;
+    };
+    return line <= this.lineCounter.lineStarts.length ? find(this.document.contents, []) : null;
+  }
+
+  private resolveAlias(node: unknown): unknown {
+    return YAML.isAlias(node) ? node.resolve(this.document) : node;
+  }
+
+  private toLocation(start: number, end: number): SourceLocation {
+    const from = this.lineCounter.linePos(start);
+    const to = this.lineCounter.linePos(end);
+    return { line: from.line, column: from.col, endLine: to.line, endColumn: to.col };
+  }
+}
@@ -0,0 +1,74 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import openapi30Schema from '../../schemas/openapi-30-specification.json';
+import openapi31Schema from '../../schemas/openapi-31-specification.json';
+import swaggerSchema from '../../schemas/swagger-specification.json';
+import { OpenAPIDocument, SwaggerDocument } from '../types';
+import { SpecificationVersion, SpecificationVersionEnum } from './enums';
+
+const schemas: Record<SpecificationVersion, object> = {
+  [SpecificationVersionEnum.Swagger2]: swaggerSchema,
+  [SpecificationVersionEnum.OpenAPI30]: openapi30Schema,
+  [SpecificationVersionEnum.OpenAPI31]: openapi31Schema,
+};
+
+const labels: Record<SpecificationVersion, string> = {
+  [SpecificationVersionEnum.Swagger2]: 'Swagger 2.0',
+  [SpecificationVersionEnum.OpenAPI30]: 'OpenAPI 3.0',
+  [SpecificationVersionEnum.OpenAPI31]: 'OpenAPI 3.1',
+};
+
+/**
+ * Version of the specification a document is written against. Documents declaring `swagger`
+ * are Swagger 2.0, `openapi: 3.0.x` is OpenAPI 3.0 and any other `openapi` is checked as
+ * OpenAPI 3.1, the latest supported version.
+ */
+export function detectSpecificationVersion(
+  document: OpenAPIDocument | SwaggerDocument
+): SpecificationVersion {
+  if (document?.swagger !== undefined) {
+    return SpecificationVersionEnum.Swagger2;
+  }
+  return /^3\.0(\.|$)/.test(String(document?.openapi))
+    ? SpecificationVersionEnum.OpenAPI30
+    : SpecificationVersionEnum.OpenAPI31;
+}
+
+/**
+ * Whether the declared version is one the schemas cover, rather than a fallback.
+ */
+export function isSupportedVersion(document: OpenAPIDocument | SwaggerDocument): boolean {
+  const declared = document?.swagger ?? document?.openapi;
+  if (typeof declared !== 'string') {
+    return true; // missing or mistyped version fields are reported by the schema
+  }
+  return document.swagger !== undefined ? declared === '2.0' : /^3\.[01](\.\d+)?$/.test(declared);
+}
+
+/**
+ * JSON Schema of the structure of documents of the given version.
+ */
+export function getSpecificationSchema(version: SpecificationVersion): object {
+  return schemas[version];
+}
+
+// Compiling a schema takes far longer than validating a document, it is done once per version
+const validators = new Map<SpecificationVersion, ValidateFunction>();
+
+/**
+ * Compiled validator of the schema of the given version.
+ */
+export function getSpecificationValidator(version: SpecificationVersion): ValidateFunction {
+  let validate = validators.get(version);
+  if (!validate) {
+    const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
+    addFormats(ajv); // handles email, uri, etc.
+    validate = ajv.compile(getSpecificationSchema(version));
+    validators.set(version, validate);
+  }
+  return validate;
+}
+
+export function getSpecificationLabel(version: SpecificationVersion): string {
+  return labels[version];
+}
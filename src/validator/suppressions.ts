@@ -0,0 +1,199 @@
+import * as YAML from 'yaml';
+import { LineIndex } from './sourceMap';
+
+// `# coas-<kind> [rule, ...] [-- reason]`
+const DIRECTIVE_PATTERN = /^#\s*coas-(disable-next-line|disable-file|disable|enable)(?=\s|$)/;
+
+// Lexer tokens that mark parser modes and are not part of the source text
+const CONTROL_TOKENS = ['doc-mode', 'flow-error-end', 'scalar'];
+
+type DirectiveKind = 'disable-next-line' | 'disable-file' | 'disable' | 'enable';
+
+// A rule id named by a directive, with its columns so that it can be reported on its own
+type RuleReference = {
+  name: string;
+  column: number;
+  endColumn: number;
+};
+
+type Directive = {
+  kind: DirectiveKind;
+  rules: RuleReference[];
+  line: number;
+  column: number;
+  endColumn: number;
+};
+
+// Lines a disabling directive covers, every rule when `rules` is empty
+type Scope = {
+  directive: Directive;
+  rules: string[];
+  from: number;
+  to: number;
+};
+
+/**
+ * A disabling comment, or one of the rules it names, that silenced no finding.
+ */
+export type UnusedSuppression = {
+  line: number;
+  column: number;
+  endColumn: number;
+  rule?: string;
+};
+
+/**
+ * The `# coas-disable*` comments of a YAML file:
+ * - `coas-disable-next-line [rules]` silences the line below the comment
+ * - `coas-disable [rules]` silences every line up to a `coas-enable [rules]`, or the end of the
+ *   file; an `coas-enable` without rules ends every open range
+ * - `coas-disable-file [rules]` silences the whole file
+ *
+ * Without rules a comment applies to every rule. Rules are separated by commas or spaces and a
+ * reason can follow ` -- `. The index remembers which comments were used to report stale ones.
+ */
+export class Suppressions {
+  private scopes: Scope[] = [];
+  private directives: Directive[];
+  // Rules each directive silenced a finding of, `*` for directives without rules
+  private used = new Map<Directive, Set<string>>();
+
+  constructor(content: string) {
+    this.directives = parseDirectives(content);
+
+    let open: Scope[] = [];
+    for (const directive of this.directives) {
+      const rules = directive.rules.map((rule) => rule.name);
+      const { line } = directive;
+      switch (directive.kind) {
+        case 'disable-next-line':
+          this.scopes.push({ directive, rules, from: line + 1, to: line + 1 });
+          break;
+        case 'disable-file':
+          this.scopes.push({ directive, rules, from: -Infinity, to: Infinity });
+          break;
+        case 'disable':
+          open.push({ directive, rules, from: line, to: Infinity });
+          break;
+        case 'enable':
+          open = open.flatMap((scope) => {
+            if (rules.length === 0) {
+              this.scopes.push({ ...scope, to: line });
+              return [];
+            }
+            // A named enable only ends the named rules of a range
+            const ended = scope.rules.filter((rule) => rules.includes(rule));
+            if (ended.length === 0) {
+              return [scope];
+            }
+            this.scopes.push({ ...scope, rules: ended, to: line });
+            const remaining = scope.rules.filter((rule) => !rules.includes(rule));
+            return remaining.length > 0 ? [{ ...scope, rules: remaining }] : [];
+          });
+          break;
+      }
+    }
+    this.scopes.push(...open);
+  }
+
+  /**
+   * Whether a comment silences a finding of `rule` at `line`. Findings without a line can only
+   * be silenced for the whole file.
+   */
+  public suppresses({ line, rule }: { line?: number; rule: string }): boolean {
+    const scope = this.scopes.find(
+      (candidate) =>
+        (line === undefined
+          ? candidate.directive.kind === 'disable-file'
+          : candidate.from <= line && line <= candidate.to) &&
+        (candidate.rules.length === 0 || candidate.rules.includes(rule))
+    );
+    if (!scope) {
+      return false;
+    }
+
+    const used = this.used.get(scope.directive) ?? new Set<string>();
+    used.add(scope.rules.length === 0 ? '*' : rule);
+    this.used.set(scope.directive, used);
+    return true;
+  }
+
+  /**
+   * The disabling comments that silenced nothing so far, whole or by rule when only some of
+   * their rules were used.
+   */
+  public getUnused(): UnusedSuppression[] {
+    return this.directives
+      .filter((directive) => directive.kind !== 'enable')
+      .flatMap((directive) => {
+        const used = this.used.get(directive) ?? new Set<string>();
+        const unused = directive.rules.filter((rule) => !used.has(rule.name));
+        const { line, column, endColumn } = directive;
+        if (used.size === 0) {
+          return [{ line, column, endColumn }];
+        }
+        return unused.map((rule) => ({
+          line,
+          column: rule.column,
+          endColumn: rule.endColumn,
+          rule: rule.name,
+        }));
+      });
+  }
+}
+
+/**
+ * Parses the directive of a single comment, `#` included. Columns are relative to the comment.
+ */
+export function parseDirective(
+  comment: string
+): { kind: DirectiveKind; rules: RuleReference[] } | null {
+  const match = DIRECTIVE_PATTERN.exec(comment);
+  if (!match) {
+    return null;
+  }
+
+  const reason = comment.indexOf(' -- ', match[0].length);
+  const list = comment.slice(0, reason >= 0 ? reason : comment.length);
+  const rules: RuleReference[] = [];
+  const rulePattern = /[^\s,]+/g;
+  rulePattern.lastIndex = match[0].length;
+  for (let rule = rulePattern.exec(list); rule; rule = rulePattern.exec(list)) {
+    rules.push({
+      name: rule[0],
+      column: rule.index + 1,
+      endColumn: rule.index + rule[0].length + 1,
+    });
+  }
+  return { kind: match[1] as DirectiveKind, rules };
+}
+
+// Comments are found with the YAML lexer so that `#` inside strings is not mistaken for one
+function parseDirectives(content: string): Directive[] {
+  const lines = new LineIndex(content);
+  const directives: Directive[] = [];
+  let offset = 0;
+  for (const token of new YAML.Lexer().lex(content)) {
+    const type = YAML.CST.tokenType(token);
+    if (type !== null && CONTROL_TOKENS.includes(type)) {
+      continue;
+    }
+    const directive = type === 'comment' ? parseDirective(token) : null;
+    if (directive) {
+      const { line, column } = lines.position(offset);
+      directives.push({
+        kind: directive.kind,
+        rules: directive.rules.map((rule) => ({
+          ...rule,
+          column: column + rule.column - 1,
+          endColumn: column + rule.endColumn - 1,
+        })),
+        line,
+        column,
+        endColumn: column + token.length,
+      });
+    }
+    offset += token.length;
+  }
+  return directives;
+}
@@ -1,15 +1,55 @@
-import * as YAML from 'yaml';
-import * as vscode from 'vscode';
-import Ajv from 'ajv';
-import addFormats from 'ajv-formats';
-import schema from '../../schemas/openapi-specification.json';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { ErrorObject } from 'ajv';
 import {
   CustomExtension,
+  CustomExtensionProperty,
   ValidationResult,
   ValidationError,
+  RuleSeverities,
+  StrictMode,
   OpenAPIDocument,
+  SwaggerDocument,
+  Rule,
+  RuleFinding,
 } from '../types/index';
-import { ExtensionLocationEnum } from './enums';
+import { checkConstraints } from './constraints';
+import { ExtensionLocation, ExtensionLocationEnum, SeverityEnum } from './enums';
+import { findExtensionKeys, suggestName } from './extensionKeys';
+import { LocationTarget, collectLocationTargets, collectSiteLocations } from './locations';
+import { isObject } from './nodes';
+import {
+  detectSpecificationVersion,
+  getSpecificationLabel,
+  getSpecificationValidator,
+  isSupportedVersion,
+} from './specification';
+import { VersionIssue, checkVersionFeatures } from './versionFeatures';
+import { DocumentCache } from './documentCache';
+import { DocumentFormat, SourceLocation, detectFormat } from './sourceMap';
+import { RefResolver, RefResolverOptions, siteKey } from './refResolver';
+import { RequirementContext, isPropertyRequired, isRequiredAt } from './requirement';
+import { builtInRules } from './rules';
+import { describeSchemaErrors, parsePointer } from './schemaErrors';
+import { Suppressions } from './suppressions';
+
+type ExtensionValueIssue =
+  | { kind: 'missing'; path: (string | number)[] }
+  | { kind: 'type'; path: (string | number)[]; expected: string; value: any }
+  | { kind: 'constraint'; path: (string | number)[]; violation: string };
+
+export type ValidationOptions = RefResolverOptions & {
+  // Detected from the content when absent
+  format?: DocumentFormat;
+  // Definitions for this document in place of the validator's, e.g. from project overrides
+  customExtensions?: CustomExtension[];
+  // Severities overriding the defaults of built-in rules and the extensions' own
+  rules?: RuleSeverities;
+  // Also report `x-` keys that are not configured for where they are used
+  strict?: StrictMode;
+  // Rules of the project's plugins, run after the built-in ones
+  customRules?: Rule[];
+};
 
 export class OpenAPIValidator {
   private customExtensions: CustomExtension[];
@@ -18,339 +58,420 @@ export class OpenAPIValidator {
     this.customExtensions = customExtensions;
   }
 
-  public validateDocument(content: string): ValidationResult {
+  public validateDocument(content: string, options: ValidationOptions = {}): ValidationResult {
     const errors: ValidationError[] = [];
-    let document: OpenAPIDocument;
-
-    try {
-      document = YAML.parse(content);
-    } catch (parseError) {
-      return {
-        isValid: false,
-        errors: [
-          {
-            message: `Failed to parse YAML: ${parseError}`,
-            extensionName: 'parse-error',
-            severity: 'error',
-          },
-        ],
-        warnings: [],
+    const format = options.format ?? detectFormat(content);
+    // The resolver parses the document's source map and referenced files with the same cache
+    const documents = options.documents ?? new DocumentCache();
+    const parsed = documents.get(content, format);
+    if (parsed.error) {
+      const { message, line, column } = parsed.error;
+      const error: ValidationError = {
+        message: `Failed to parse ${format.toUpperCase()}: ${message}`,
+        line,
+        column,
+        extensionName: 'parse-error',
+        severity: 'error',
       };
+      return { isValid: false, errors: [error], warnings: [] };
     }
+    const document: OpenAPIDocument | SwaggerDocument = parsed.value;
 
-    // Validate OpenAPI structure
-    const ajv = new Ajv({ allErrors: true, strict: false, verbose: true });
-    addFormats(ajv); // handles email, uri, etc.
-    const validate = ajv.compile(schema);
+    const resolver = new RefResolver(content, document, { ...options, documents });
+    const sourceMap = resolver.getSourceMap();
+
+    // Validate the structure against the schema of the declared specification version
+    const version = detectSpecificationVersion(document);
+    const versionLabel = getSpecificationLabel(version);
+    if (!isSupportedVersion(document)) {
+      const field = document.swagger !== undefined ? 'swagger' : 'openapi';
+      errors.push({
+        message: `Unsupported version "${document[field]}", the document is validated as ${versionLabel}`,
+        ...this.toPosition(sourceMap.locate([field], 'value')),
+        extensionName: 'unsupported-version',
+        severity: 'warning',
+      });
+    }
 
+    // Features of the other OpenAPI version get a dedicated message instead of schema errors
+    const versionIssues = checkVersionFeatures(document as OpenAPIDocument, version);
+    for (const issue of versionIssues) {
+      errors.push({
+        message: issue.message,
+        ...this.toPosition(sourceMap.locate(issue.path, issue.part)),
+        extensionName: 'version-mismatch',
+        severity: 'error',
+      });
+    }
+
+    const validate = getSpecificationValidator(version);
     const valid = validate(document);
     if (!valid && validate.errors) {
-      for (const err of validate.errors) {
-        const location = this.findExtensionLocation(content, err.instancePath);
-
-        const property = (err.params as any)?.additionalProperty;
-        let range: vscode.Range | undefined;
-
-        if (location && property) {
-          // highlight just the property key
-          const lineText = content.split('\n')[location.line - 1];
-          const startCol = lineText.indexOf(property);
-          if (startCol >= 0) {
-            const pos = new vscode.Position(location.line - 1, startCol);
-            range = new vscode.Range(pos, pos.translate(0, property.length));
-          }
-        }
-
+      const schemaErrors = validate.errors.filter(
+        (error) =>
+          !this.isCausedByVersionIssue(error, parsePointer(error.instancePath), versionIssues)
+      );
+      for (const issue of describeSchemaErrors(schemaErrors)) {
+        // Keys that are not in the document, e.g. a missing property, point at their parent
+        const location =
+          sourceMap.locate(issue.path, issue.part) ?? sourceMap.locate(issue.path.slice(0, -1));
         errors.push({
-          message: `Schema validation error: Property "${property}" is not allowed at ${err.instancePath || '/'}`,
-          line: location?.line,
-          column: location?.column,
+          message: `Schema validation error (${versionLabel}): ${issue.message}`,
+          ...this.toPosition(location),
           extensionName: 'schema-validation',
           severity: 'error',
-          range,
         });
       }
     }
 
-    // Validate required custom extensions
-    for (const extension of this.customExtensions) {
-      if (extension.required !== false) {
-        const validationResults = this.validateExtensionInSection(document, content, extension);
-        errors.push(...validationResults);
+    // Semantic rules, checking what the schema cannot express. A document that is not a
+    // mapping, e.g. `null`, has nothing for them to check and is reported by the schema.
+    const rules = isObject(document) ? [...builtInRules, ...(options.customRules ?? [])] : [];
+    for (const rule of rules) {
+      if (options.rules?.[rule.name] === SeverityEnum.Off) {
+        continue;
+      }
+      try {
+        rule.check({
+          document,
+          version,
+          sourceMap,
+          resolver,
+          report: (finding) => errors.push(this.fromRuleFinding(rule, finding, resolver)),
+        });
+      } catch (error) {
+        // A broken plugin rule must not prevent the other findings
+        errors.push({
+          message: `Rule ${rule.name} failed: ${(error as Error).message}`,
+          extensionName: rule.name,
+          severity: SeverityEnum.Error,
+        });
       }
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors,
-      warnings: [],
-    };
-  }
+    // Validate custom extensions, presence is checked per section against `required`.
+    // Sections reached through $refs are checked once at their definition.
+    const extensions = options.customExtensions ?? this.customExtensions;
+    for (const extension of extensions) {
+      const severity = options.rules?.[extension.name] ?? extension.severity ?? SeverityEnum.Error;
+      if (severity === SeverityEnum.Off) {
+        continue;
+      }
 
-  private hasExtension(document: OpenAPIDocument, extensionName: string, section?: any): boolean {
-    if (section) {
-      return section.hasOwnProperty(extensionName);
+      const definitions = new Map<string, LocationTarget[]>();
+      for (const target of collectLocationTargets(document, extension.in, resolver)) {
+        const key = siteKey(target.file, target.path);
+        definitions.set(key, [...(definitions.get(key) ?? []), target]);
+      }
+      for (const targets of definitions.values()) {
+        this.checkExtension(targets, resolver, extension, severity, errors);
+      }
     }
-    return document.hasOwnProperty(extensionName);
-  }
-
-  private validateExtensionInSection(
-    document: OpenAPIDocument,
-    content: string,
-    extension: CustomExtension
-  ): ValidationError[] {
-    const errors: ValidationError[] = [];
 
-    switch (extension.in) {
-      case ExtensionLocationEnum.Root:
-        this.validateRootExtension(document, content, extension, errors);
-        break;
-      case ExtensionLocationEnum.Servers:
-        this.validateServersExtension(document, content, extension, errors);
-        break;
-      case ExtensionLocationEnum.Tags:
-        this.validateTagsExtension(document, content, extension, errors);
-        break;
-      case ExtensionLocationEnum.Parameters:
-        this.validateParametersExtension(document, content, extension, errors);
-        break;
-      case ExtensionLocationEnum.RequestBody:
-        this.validateRequestBodyExtension(document, content, extension, errors);
-        break;
+    if (options.strict) {
+      this.checkExtensionKeys(document, resolver, extensions, options.strict, errors);
     }
 
-    return errors;
-  }
-
-  private validateRootExtension(
-    document: OpenAPIDocument,
-    content: string,
-    extension: CustomExtension,
-    errors: ValidationError[]
-  ): void {
-    const hasExtension = this.hasExtension(document, extension.name);
-    const location = this.findExtensionLocation(content, extension.name);
+    // Findings are silenced by the `# coas-disable` comments of the file they are reported in
+    const suppressions = new Map<string | undefined, Suppressions>();
+    const suppressionsOf = (file?: string) => {
+      if (!suppressions.has(file)) {
+        suppressions.set(file, new Suppressions(resolver.getContent(file) ?? ''));
+      }
+      return suppressions.get(file)!;
+    };
+    const findings = errors.flatMap((finding) => {
+      const severity = options.rules?.[finding.extensionName] ?? finding.severity;
+      const suppressed = () =>
+        suppressionsOf(finding.file).suppresses({
+          line: finding.line,
+          rule: finding.extensionName,
+        });
+      return severity === SeverityEnum.Off || suppressed() ? [] : [{ ...finding, severity }];
+    });
 
-    if (!hasExtension) {
-      errors.push({
-        message: `Missing required custom extension: ${extension.name}`,
-        line: location?.line,
-        column: location?.column,
-        extensionName: extension.name,
-        severity: 'error',
-      });
-    } else {
-      const value = document[extension.name];
-      if (!this.validateExtensionType(value, extension.type)) {
-        errors.push({
-          message: `Extension ${extension.name} should be of type ${extension.type}, got ${typeof value}`,
-          line: location?.line,
-          column: location?.column,
-          extensionName: extension.name,
-          severity: 'error',
+    // Only the document's own comments are checked, those of other files may serve other roots
+    const unusedSeverity = options.rules?.['unused-suppression'] ?? SeverityEnum.Warning;
+    if (unusedSeverity !== SeverityEnum.Off) {
+      for (const unused of suppressionsOf(undefined).getUnused()) {
+        findings.push({
+          message:
+            unused.rule === undefined
+              ? 'Unused suppression comment, no finding is silenced by it'
+              : `Unused suppression of ${unused.rule}, no ${unused.rule} finding is silenced by it`,
+          line: unused.line,
+          column: unused.column,
+          endLine: unused.line,
+          endColumn: unused.endColumn,
+          extensionName: 'unused-suppression',
+          severity: unusedSeverity,
         });
       }
     }
+    const isError = (finding: ValidationError) => finding.severity === SeverityEnum.Error;
+    return {
+      isValid: !findings.some(isError),
+      errors: findings.filter(isError),
+      warnings: findings.filter((finding) => !isError(finding)),
+    };
   }
 
-  private validateServersExtension(
-    document: OpenAPIDocument,
-    content: string,
-    extension: CustomExtension,
+  private fromRuleFinding(
+    rule: Rule,
+    finding: RuleFinding,
+    resolver: RefResolver
+  ): ValidationError {
+    const related = finding.related?.map((site) => ({
+      message: site.message,
+      file: site.file,
+      ...this.toPosition(resolver.getSourceMap(site.file).locate(site.path)),
+    }));
+    return {
+      message: finding.message,
+      ...this.toPosition(resolver.getSourceMap(finding.file).locate(finding.path, finding.part)),
+      extensionName: rule.name,
+      severity: rule.severity ?? SeverityEnum.Error,
+      ...(finding.file !== undefined && { file: finding.file }),
+      ...(related && related.length > 0 && { related }),
+    };
+  }
+
+  /**
+   * Strict mode: reports the `x-` keys of the document that no definition declares, with the
+   * closest configured name as a suggestion, and those used outside their `in` locations.
+   */
+  private checkExtensionKeys(
+    document: OpenAPIDocument | SwaggerDocument,
+    resolver: RefResolver,
+    extensions: CustomExtension[],
+    strict: StrictMode,
     errors: ValidationError[]
   ): void {
-    if (!document.servers || !Array.isArray(document.servers)) {
-      return;
+    const allowed = typeof strict === 'object' ? (strict.allowedExtensions ?? []) : [];
+    const declared = new Map<string, ExtensionLocation[]>();
+    for (const extension of extensions) {
+      declared.set(extension.name, [...(declared.get(extension.name) ?? []), extension.in]);
     }
 
-    document.servers.forEach((server, index) => {
-      const hasExtension = this.hasExtension(document, extension.name, server);
-      const location = this.findExtensionLocation(content, `servers/${index}`);
+    const locationsBySite = collectSiteLocations(document, resolver);
 
-      if (!hasExtension) {
+    const sourceMap = resolver.getSourceMap();
+    for (const { name, path: keyPath } of findExtensionKeys(document)) {
+      if (allowed.some((pattern) => minimatch(name, pattern))) {
+        continue;
+      }
+      const location = this.toPosition(sourceMap.locate([...keyPath, name]));
+
+      const declaredIn = declared.get(name);
+      if (!declaredIn) {
+        const suggestion = suggestName(name, [...declared.keys()]);
         errors.push({
-          message: `Missing required custom extension: ${extension.name} in servers[${index}]`,
-          line: location?.line,
-          column: location?.column,
-          extensionName: extension.name,
-          severity: 'error',
+          message: `Unknown extension ${name}${suggestion ? `, did you mean ${suggestion}?` : ''}`,
+          ...location,
+          extensionName: 'unknown-extension',
+          severity: SeverityEnum.Warning,
         });
-      } else {
-        const value = (server as any)[extension.name];
-        if (!this.validateExtensionType(value, extension.type)) {
-          errors.push({
-            message: `Extension ${extension.name} in servers[${index}] should be of type ${extension.type}, got ${typeof value}`,
-            line: location?.line,
-            column: location?.column,
-            extensionName: extension.name,
-            severity: 'error',
-          });
-        }
+        continue;
       }
-    });
+
+      const locations = locationsBySite.get(siteKey(undefined, keyPath)) ?? [];
+      if (!declaredIn.some((declaredLocation) => locations.includes(declaredLocation))) {
+        const here = locations.length > 0 ? `in ${locations.join(', ')}` : 'here';
+        errors.push({
+          message: `Extension ${name} is not expected ${here}, it is configured for ${declaredIn.join(', ')}`,
+          ...location,
+          extensionName: 'misplaced-extension',
+          severity: SeverityEnum.Warning,
+        });
+      }
+    }
+  }
+
+  private hasExtension(section: any, extensionName: string): boolean {
+    return (
+      typeof section === 'object' &&
+      section !== null &&
+      Object.prototype.hasOwnProperty.call(section, extensionName)
+    );
   }
 
-  private validateTagsExtension(
-    document: OpenAPIDocument,
-    content: string,
+  /**
+   * Checks a single section (root, a server, a tag, ...) for the extension: reports it when
+   * missing where `required` applies, otherwise walks its value against the declared shape.
+   * `targets` all share the same definition; when they were reached through `$ref`s the
+   * findings point at the definition and link back to every referencing site.
+   */
+  private checkExtension(
+    targets: LocationTarget[],
+    resolver: RefResolver,
     extension: CustomExtension,
+    severity: ValidationError['severity'],
     errors: ValidationError[]
   ): void {
-    if (!document.tags || !Array.isArray(document.tags)) {
+    const [{ node: section, path: sectionPath, file }] = targets;
+    const sourceMap = resolver.getSourceMap(file);
+    const references = targets.flatMap((target) => target.references);
+    const label =
+      references.length > 0 ? this.formatDefinition(file, sectionPath) : targets[0].label;
+    const context = label ? ` in ${label}` : '';
+    const related = references.map((site) => {
+      const location = resolver.getSourceMap(site.file).locate(site.path);
+      return {
+        message: `Referenced from ${site.label}`,
+        file: site.file,
+        ...this.toPosition(location),
+      };
+    });
+    const sectionLocation = sourceMap.locate(sectionPath);
+
+    if (!this.hasExtension(section, extension.name)) {
+      if (!targets.some((target) => isRequiredAt(extension.required, target.requirement))) {
+        return;
+      }
+      errors.push({
+        message: `Missing required custom extension: ${extension.name}${context}`,
+        ...this.toPosition(sectionLocation),
+        extensionName: extension.name,
+        severity,
+        ...(file !== undefined && { file }),
+        ...(related.length > 0 && { related }),
+        fix: { kind: 'add-extension', path: sectionPath, extension },
+      });
       return;
     }
 
-    document.tags.forEach((tag, index) => {
-      const hasExtension = this.hasExtension(document, extension.name, tag);
-      const location = this.findExtensionLocation(content, `tags/${index}`);
-
-      if (!hasExtension) {
-        errors.push({
-          message: `Missing required custom extension: ${extension.name} in tags[${index}]`,
-          line: location?.line,
-          column: location?.column,
-          extensionName: extension.name,
-          severity: 'error',
-        });
-      } else {
-        const value = tag[extension.name];
-        if (!this.validateExtensionType(value, extension.type)) {
-          errors.push({
-            message: `Extension ${extension.name} in tags[${index}] should be of type ${extension.type}, got ${typeof value}`,
-            line: location?.line,
-            column: location?.column,
-            extensionName: extension.name,
-            severity: 'error',
-          });
-        }
+    // A shared definition is checked in every context it is used in, each issue reported once
+    const issues = new Map<string, ExtensionValueIssue>();
+    for (const target of targets) {
+      const value = section[extension.name];
+      for (const issue of this.validateExtensionValue(value, extension, [], target.requirement)) {
+        issues.set(`${issue.kind}:${issue.path.join('/')}`, issue);
       }
-    });
-  }
+    }
 
-  private validateParametersExtension(
-    document: OpenAPIDocument,
-    content: string,
-    extension: CustomExtension,
-    errors: ValidationError[]
-  ): void {
-    // Validate parameters in paths
-    if (document.paths) {
-      Object.keys(document.paths).forEach((pathKey) => {
-        const pathItem = document.paths![pathKey];
-        if (pathItem && 'parameters' in pathItem && pathItem.parameters) {
-          pathItem.parameters.forEach((param: any, index: number) => {
-            const hasExtension = this.hasExtension(document, extension.name, param);
-            const location = this.findExtensionLocation(
-              content,
-              `paths/${pathKey}/parameters/${index}`
-            );
-
-            if (!hasExtension) {
-              errors.push({
-                message: `Missing required custom extension: ${extension.name} in ${pathKey} parameters[${index}]`,
-                line: location?.line,
-                column: location?.column,
-                extensionName: extension.name,
-                severity: 'error',
-              });
-            } else {
-              const value = param[extension.name];
-              if (!this.validateExtensionType(value, extension.type)) {
-                errors.push({
-                  message: `Extension ${extension.name} in ${pathKey} parameters[${index}] should be of type ${extension.type}, got ${typeof value}`,
-                  line: location?.line,
-                  column: location?.column,
-                  extensionName: extension.name,
-                  severity: 'error',
-                });
-              }
-            }
-          });
-        }
+    for (const issue of issues.values()) {
+      const location =
+        sourceMap.locate([...sectionPath, extension.name, ...issue.path], 'value') ??
+        sourceMap.locate([...sectionPath, extension.name], 'value') ??
+        sectionLocation;
+      const displayPath = this.formatPropertyPath(extension.name, issue.path);
+      const converted =
+        issue.kind === 'type' ? this.convertValue(issue.value, issue.expected) : undefined;
 
-        // Also check operation-level parameters
-        const operations = ['get', 'post', 'put', 'delete', 'options', 'head', 'patch', 'trace'];
-        operations.forEach((method) => {
-          const operation = (pathItem as any)[method];
-          if (operation && operation.parameters) {
-            operation.parameters.forEach((param: any, index: number) => {
-              const hasExtension = this.hasExtension(document, extension.name, param);
-              const location = this.findExtensionLocation(
-                content,
-                `paths/${pathKey}/${method}/parameters/${index}`
-              );
-
-              if (!hasExtension) {
-                errors.push({
-                  message: `Missing required custom extension: ${extension.name} in ${pathKey}.${method} parameters[${index}]`,
-                  line: location?.line,
-                  column: location?.column,
-                  extensionName: extension.name,
-                  severity: 'error',
-                });
-              } else {
-                const value = param[extension.name];
-                if (!this.validateExtensionType(value, extension.type)) {
-                  errors.push({
-                    message: `Extension ${extension.name} in ${pathKey}.${method} parameters[${index}] should be of type ${extension.type}, got ${typeof value}`,
-                    line: location?.line,
-                    column: location?.column,
-                    extensionName: extension.name,
-                    severity: 'error',
-                  });
-                }
-              }
-            });
-          }
-        });
+      errors.push({
+        message: this.formatIssue(issue, displayPath, context),
+        ...this.toPosition(location),
+        extensionName: extension.name,
+        severity,
+        ...(file !== undefined && { file }),
+        ...(related.length > 0 && { related }),
+        ...(converted !== undefined && {
+          fix: {
+            kind: 'replace-value',
+            path: [...sectionPath, extension.name, ...issue.path],
+            value: converted,
+          },
+        }),
       });
     }
   }
 
-  private validateRequestBodyExtension(
-    document: OpenAPIDocument,
-    content: string,
-    extension: CustomExtension,
-    errors: ValidationError[]
-  ): void {
-    if (document.paths) {
-      Object.keys(document.paths).forEach((pathKey) => {
-        const pathItem = document.paths![pathKey];
-        const operations = ['post', 'put', 'patch'];
-
-        operations.forEach((method) => {
-          const operation = (pathItem as any)[method];
-          if (operation && operation.requestBody) {
-            const hasExtension = this.hasExtension(document, extension.name, operation.requestBody);
-            const location = this.findExtensionLocation(
-              content,
-              `paths/${pathKey}/${method}/requestBody`
-            );
-
-            if (!hasExtension) {
-              errors.push({
-                message: `Missing required custom extension: ${extension.name} in ${pathKey}.${method} requestBody`,
-                line: location?.line,
-                column: location?.column,
-                extensionName: extension.name,
-                severity: 'error',
-              });
-            } else {
-              const value = operation.requestBody[extension.name];
-              if (!this.validateExtensionType(value, extension.type)) {
-                errors.push({
-                  message: `Extension ${extension.name} in ${pathKey}.${method} requestBody should be of type ${extension.type}, got ${typeof value}`,
-                  line: location?.line,
-                  column: location?.column,
-                  extensionName: extension.name,
-                  severity: 'error',
-                });
-              }
-            }
+  /**
+   * Recursively validates a value against a declared property shape and returns every
+   * mismatch with the path (property names and array indexes) leading to it.
+   */
+  private validateExtensionValue(
+    value: any,
+    property: CustomExtensionProperty,
+    path: (string | number)[],
+    requirement: RequirementContext
+  ): ExtensionValueIssue[] {
+    if (!this.validateExtensionType(value, property.type)) {
+      return [{ kind: 'type', path, expected: property.type, value }];
+    }
+
+    const issues: ExtensionValueIssue[] = checkConstraints(value, property).map((violation) => ({
+      kind: 'constraint',
+      path,
+      violation,
+    }));
+
+    if (property.type === 'object' && property.properties) {
+      for (const [key, nested] of Object.entries(property.properties)) {
+        if (!Object.prototype.hasOwnProperty.call(value, key)) {
+          if (isPropertyRequired(property, key, nested, requirement)) {
+            issues.push({ kind: 'missing', path: [...path, key] });
           }
-        });
+          continue;
+        }
+        issues.push(
+          ...this.validateExtensionValue(value[key], nested, [...path, key], requirement)
+        );
+      }
+    }
+
+    if (property.type === 'array' && property.items) {
+      value.forEach((item: any, index: number) => {
+        issues.push(
+          ...this.validateExtensionValue(item, property.items!, [...path, index], requirement)
+        );
       });
     }
+
+    return issues;
+  }
+
+  private formatIssue(issue: ExtensionValueIssue, displayPath: string, context: string): string {
+    switch (issue.kind) {
+      case 'missing':
+        return `Missing required property ${displayPath}${context}`;
+      case 'type':
+        return `Extension ${displayPath}${context} should be of type ${issue.expected}, got ${this.describeType(issue.value)}`;
+      case 'constraint':
+        return `Extension ${displayPath}${context} ${issue.violation}`;
+    }
+  }
+
+  private formatDefinition(file: string | undefined, definitionPath: (string | number)[]): string {
+    const pointer = definitionPath
+      .map((part) => String(part).replace(/~/g, '~0').replace(/\//g, '~1'))
+      .join('/');
+    return `${file ? path.basename(file) : ''}#/${pointer}`;
+  }
+
+  private formatPropertyPath(extensionName: string, path: (string | number)[]): string {
+    return path.reduce<string>(
+      (display, part) => (typeof part === 'number' ? `${display}[${part}]` : `${display}.${part}`),
+      extensionName
+    );
+  }
+
+  private describeType(value: any): string {
+    if (value === null) {
+      return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+  }
+
+  /**
+   * Converts a scalar of the wrong type when its meaning is unambiguous, e.g. `"true"` to
+   * `true` or `42` to `"42"`. Returns undefined otherwise.
+   */
+  private convertValue(value: any, expectedType: string): any {
+    switch (expectedType) {
+      case 'string':
+        return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+      case 'number': {
+        const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+        return Number.isFinite(number) ? number : undefined;
+      }
+      case 'boolean':
+        return value === 'true' || value === 'false' ? value === 'true' : undefined;
+      case 'array':
+        return ['string', 'number', 'boolean'].includes(typeof value) ? [value] : undefined;
+      default:
+        return undefined;
+    }
   }
 
   private validateExtensionType(value: any, expectedType: string): boolean {
@@ -370,64 +491,40 @@ export class OpenAPIValidator {
     }
   }
 
-  private findExtensionLocation(
-    content: string,
-    extensionName: string
-  ): { line: number; column: number } | null {
-    return this.findYamlLocation(content, extensionName);
-  }
-
-  private findYamlLocation(
-    content: string,
-    extensionPath: string
-  ): { line: number; column: number } | null {
-    const lines = content.split('\n');
-    const pathParts = extensionPath.split('/').filter((part) => part.length > 0);
-
-    let depth = 0;
-    let arrayIndex = -1; // track current array index when inside `-`
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmed = line.trim();
-
-      // Check if this line starts an array item
-      const arrayItemMatch = trimmed.match(/^- /);
-      if (arrayItemMatch) {
-        arrayIndex++;
-        // If the current pathPart is an index, check it
-        if (String(arrayIndex) === pathParts[depth]) {
-          depth++;
-          if (depth === pathParts.length) {
-            return { line: i + 1, column: this.getIndentation(line) + 3 };
-          }
-        }
-      }
-
-      // Match a mapping key (with or without "- " prefix)
-      const match = trimmed.match(/^(?:-\s+)?([A-Za-z0-9_\-]+)\s*:/);
-      if (match) {
-        const key = match[1];
-        if (key === pathParts[depth]) {
-          depth++;
-          if (depth === pathParts.length) {
-            return { line: i + 1, column: this.getIndentation(line) + 1 };
-          }
-        }
-      }
-
-      // Reset arrayIndex when indentation decreases (new block)
-      if (this.getIndentation(line) === 0) {
-        arrayIndex = -1;
-      }
-    }
-
-    return null;
+  /**
+   * Whether a schema error comes from a wrong-version feature: it is reported at or inside the
+   * feature, or by an `anyOf` enclosing it whose branches all failed because of it.
+   */
+  private isCausedByVersionIssue(
+    error: ErrorObject,
+    instancePath: string[],
+    issues: VersionIssue[]
+  ): boolean {
+    const isPrefix = (prefix: (string | number)[], path: (string | number)[]) =>
+      prefix.length <= path.length && prefix.every((part, index) => String(part) === path[index]);
+    // Keys that are not allowed are reported at their parent
+    const errorPath =
+      error.keyword === 'additionalProperties'
+        ? [...instancePath, String(error.params.additionalProperty)]
+        : instancePath;
+
+    return issues.some(
+      (issue) =>
+        isPrefix(issue.path, errorPath) ||
+        (isPrefix(instancePath, issue.path.map(String)) &&
+          (error.keyword === 'anyOf' || error.schemaPath.includes('/anyOf/')))
+    );
   }
 
-  private getIndentation(line: string): number {
-    const match = line.match(/^(\s*)\S/);
-    return match ? match[1].length : 0;
+  private toPosition(
+    location: SourceLocation | null
+  ): Pick<ValidationError, 'line' | 'column' | 'endLine' | 'endColumn'> {
+    return {
+      line: location?.line,
+      column: location?.column,
+      endLine: location?.endLine,
+      endColumn: location?.endColumn,
+    };
   }
 
   public getRequiredExtensions(): CustomExtension[] {
@@ -0,0 +1,154 @@
+import { OpenAPIDocument } from '../types';
+import { SpecificationVersion, SpecificationVersionEnum } from './enums';
+import { holdsData, isObject } from './nodes';
+
+/**
+ * A feature of another OpenAPI version used in the document. `part` tells whether the key
+ * or the value of the node at `path` is at fault.
+ */
+export type VersionIssue = {
+  path: (string | number)[];
+  part: 'key' | 'value';
+  message: string;
+};
+
+// Keywords holding nested schemas, by the shape of their value
+const schemaMaps = ['properties', 'patternProperties', '$defs'];
+const schemaLists = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+const schemaValues = ['items', 'additionalProperties', 'not', 'contains'];
+
+// JSON Schema keywords OpenAPI 3.0 schema objects do not support
+const schemaKeywords31 = ['const', '$defs', 'prefixItems', 'contains', 'patternProperties'];
+
+// Document fields introduced by OpenAPI 3.1
+const fields31 = [
+  ['webhooks'],
+  ['jsonSchemaDialect'],
+  ['info', 'summary'],
+  ['info', 'license', 'identifier'],
+  ['components', 'pathItems'],
+];
+
+function hasPath(node: any, path: string[]): boolean {
+  return path.every((key) => {
+    const found = isObject(node) && key in node;
+    node = found ? node[key] : undefined;
+    return found;
+  });
+}
+
+function children(node: any): [string | number, any][] {
+  return Array.isArray(node) ? node.map((item, index) => [index, item]) : Object.entries(node);
+}
+
+/**
+ * Finds the fields and schema keywords of the document that belong to another OpenAPI version
+ * than the one it declares. Swagger 2.0 documents have their own schema and are not checked.
+ */
+export function checkVersionFeatures(
+  document: OpenAPIDocument,
+  version: SpecificationVersion
+): VersionIssue[] {
+  if (version === SpecificationVersionEnum.Swagger2 || !isObject(document)) {
+    return [];
+  }
+
+  const declared = `openapi ${document.openapi}`;
+  const issues: VersionIssue[] = [];
+  const requires31 = (path: (string | number)[], feature: string, part: 'key' | 'value') =>
+    issues.push({
+      path,
+      part,
+      message: `${feature} requires OpenAPI 3.1, but the document declares ${declared}`,
+    });
+
+  if (version === SpecificationVersionEnum.OpenAPI30) {
+    for (const field of fields31.filter((field) => hasPath(document, field))) {
+      requires31(field, `"${field.join('.')}"`, 'key');
+    }
+  }
+
+  const checkSchema = (schema: any, path: (string | number)[]) => {
+    if (version === SpecificationVersionEnum.OpenAPI30) {
+      if (Array.isArray(schema.type)) {
+        requires31([...path, 'type'], 'A list of types', 'value');
+      }
+      if (schema.type === 'null') {
+        requires31([...path, 'type'], 'Type "null"', 'value');
+      }
+      for (const keyword of ['exclusiveMaximum', 'exclusiveMinimum']) {
+        if (typeof schema[keyword] === 'number') {
+          requires31([...path, keyword], `A numeric "${keyword}"`, 'value');
+        }
+      }
+      if (Array.isArray(schema.examples)) {
+        requires31([...path, 'examples'], 'The schema keyword "examples"', 'key');
+      }
+      for (const keyword of schemaKeywords31.filter((keyword) => keyword in schema)) {
+        requires31([...path, keyword], `The schema keyword "${keyword}"`, 'key');
+      }
+      return;
+    }
+
+    if ('nullable' in schema) {
+      issues.push({
+        path: [...path, 'nullable'],
+        part: 'key',
+        message: `"nullable" is not supported in OpenAPI 3.1, add "null" to the schema's type instead`,
+      });
+    }
+    for (const keyword of ['exclusiveMaximum', 'exclusiveMinimum']) {
+      if (typeof schema[keyword] === 'boolean') {
+        issues.push({
+          path: [...path, keyword],
+          part: 'value',
+          message: `A boolean "${keyword}" is OpenAPI 3.0 syntax, OpenAPI 3.1 expects the bound as a number`,
+        });
+      }
+    }
+  };
+
+  const visitSchema = (schema: any, path: (string | number)[]) => {
+    if (!isObject(schema)) {
+      return;
+    }
+    checkSchema(schema, path);
+
+    for (const keyword of schemaMaps.filter((keyword) => isObject(schema[keyword]))) {
+      for (const [name, nested] of Object.entries(schema[keyword])) {
+        visitSchema(nested, [...path, keyword, name]);
+      }
+    }
+    for (const keyword of schemaLists.filter((keyword) => Array.isArray(schema[keyword]))) {
+      schema[keyword].forEach((nested: any, index: number) =>
+        visitSchema(nested, [...path, keyword, index])
+      );
+    }
+    for (const keyword of schemaValues) {
+      visitSchema(schema[keyword], [...path, keyword]);
+    }
+  };
+
+  // Schemas sit under `schema` fields and in `components.schemas`; data and extensions hold
+  // arbitrary values and are skipped
+  const visit = (node: any, path: (string | number)[]) => {
+    for (const [key, value] of children(node)) {
+      const extension = typeof key === 'string' && key.startsWith('x-');
+      if ((!isObject(value) && !Array.isArray(value)) || extension || holdsData(key, value)) {
+        continue;
+      }
+      if (key === 'schema') {
+        visitSchema(value, [...path, key]);
+      } else if (key === 'schemas' && path.length === 1 && path[0] === 'components') {
+        for (const [name, schema] of Object.entries(value)) {
+          visitSchema(schema, [...path, key, name]);
+        }
+      } else {
+        visit(value, [...path, key]);
+      }
+    }
+  };
+  visit(document, []);
+
+  return issues;
+}